@@ -0,0 +1,136 @@
+/**
+ * SCORM Virtual File System Service Worker
+ * Answers requests under /scorm-vfs/<packageId>/ with files from unzipped
+ * SCORM packages. The player page writes the files to Cache Storage when a
+ * package is mounted (see src/lib/scorm-vfs.ts); this worker only reads them.
+ */
+
+'use strict';
+
+// Keep in sync with VFS_CACHE_NAME in src/lib/scorm-vfs.ts
+const CACHE_NAME = 'scorm-vfs-v1';
+const PATH_PREFIX = '/scorm-vfs/';
+
+self.addEventListener('install', function() {
+    self.skipWaiting();
+});
+
+self.addEventListener('activate', function(event) {
+    event.waitUntil(self.clients.claim());
+});
+
+// Same canonical encoding as encodeVirtualPath() in src/lib/scorm-vfs.ts
+function encodeVirtualPath(path) {
+    const segments = [];
+    path.replace(/\\/g, '/').split('/').forEach(function(segment) {
+        if (segment === '' || segment === '.') return;
+        if (segment === '..') {
+            segments.pop();
+            return;
+        }
+        segments.push(encodeURIComponent(segment));
+    });
+    return segments.join('/');
+}
+
+function decodeSegment(segment) {
+    try {
+        return decodeURIComponent(segment);
+    } catch {
+        return segment;
+    }
+}
+
+function getCacheKey(url) {
+    const rest = url.pathname.substring(PATH_PREFIX.length);
+    const slashIndex = rest.indexOf('/');
+    if (slashIndex === -1) return null;
+
+    const packageId = decodeSegment(rest.substring(0, slashIndex));
+    const filePath = rest
+        .substring(slashIndex + 1)
+        .split('/')
+        .map(decodeSegment)
+        .join('/');
+
+    return url.origin + PATH_PREFIX + encodeURIComponent(packageId) + '/' + encodeVirtualPath(filePath);
+}
+
+// Media elements issue range requests; answer them with a 206 slice
+async function createRangeResponse(response, rangeHeader) {
+    const match = /^bytes=(\d*)-(\d*)$/.exec(rangeHeader.trim());
+    const blob = await response.blob();
+    const size = blob.size;
+
+    if (!match || (match[1] === '' && match[2] === '')) {
+        return new Response(null, {
+            status: 416,
+            headers: { 'Content-Range': 'bytes */' + size }
+        });
+    }
+
+    let start;
+    let end;
+    if (match[1] === '') {
+        // Suffix range: the last N bytes
+        start = Math.max(size - parseInt(match[2], 10), 0);
+        end = size - 1;
+    } else {
+        start = parseInt(match[1], 10);
+        end = match[2] === '' ? size - 1 : Math.min(parseInt(match[2], 10), size - 1);
+    }
+
+    if (start >= size || start > end) {
+        return new Response(null, {
+            status: 416,
+            headers: { 'Content-Range': 'bytes */' + size }
+        });
+    }
+
+    return new Response(blob.slice(start, end + 1), {
+        status: 206,
+        headers: {
+            'Content-Type': response.headers.get('Content-Type') || 'application/octet-stream',
+            'Content-Length': String(end - start + 1),
+            'Content-Range': 'bytes ' + start + '-' + end + '/' + size,
+            'Accept-Ranges': 'bytes'
+        }
+    });
+}
+
+async function respondFromPackage(request) {
+    const url = new URL(request.url);
+    const cacheKey = getCacheKey(url);
+    if (!cacheKey) {
+        return new Response('Invalid SCORM package path', { status: 400 });
+    }
+
+    const cache = await caches.open(CACHE_NAME);
+    const response = await cache.match(cacheKey);
+    if (!response) {
+        console.warn('[SCORM VFS] File not found in package:', url.pathname);
+        return new Response('File not found in SCORM package', {
+            status: 404,
+            headers: { 'Content-Type': 'text/plain; charset=utf-8' }
+        });
+    }
+
+    const rangeHeader = request.headers.get('Range');
+    if (rangeHeader) {
+        return createRangeResponse(response, rangeHeader);
+    }
+
+    return response;
+}
+
+self.addEventListener('fetch', function(event) {
+    const request = event.request;
+    if (request.method !== 'GET' && request.method !== 'HEAD') return;
+
+    const url = new URL(request.url);
+    if (url.origin !== self.location.origin || !url.pathname.startsWith(PATH_PREFIX)) {
+        return;
+    }
+
+    event.respondWith(respondFromPackage(request));
+});
@@ -0,0 +1,245 @@
+// SCORM 2004 Sequencing Simulator
+// Runs a package's sequencing against a scripted scenario without a browser,
+// so course authors can check which activities are delivered, how status
+// rolls up and which navigation is available after each step.
+//
+// Usage:
+//   npm run simulate-sequencing -- <package.zip | imsmanifest.xml | directory> <scenario.json> [--trace] [--organization <id>]
+//
+// Scenario file:
+//   {
+//     "seed": 1,                 // Optional, makes randomization reproducible
+//     "steps": [
+//       "start",
+//       { "results": "satisfied, measure 0.8, completed", "request": "continue" },
+//       { "results": { "successStatus": "failed" }, "request": "choice", "target": "item_3" },
+//       "choice item_2",
+//       "exitAll"
+//     ]
+//   }
+//
+// Results are reported for the activity delivered by the previous step before
+// its request is processed. Shorthand results are comma separated: satisfied
+// (or passed), notSatisfied (or failed), completed, incomplete, measure <n>
+// and suspend.
+//
+// --organization sequences an organization other than the manifest's default.
+
+import { promises as fs } from "fs";
+import path from "path";
+import { SCORMParser } from "@/lib/scorm-parser";
+import { getOrganization } from "@/lib/scorm-organization";
+import {
+  ActivityRuntimeResults,
+  ActivityStateSnapshot,
+  SCORMSequencingEngine,
+} from "@/lib/scorm-sequencing-correct";
+import { SCORMItem, SCORMManifest } from "@/types/scorm";
+
+interface ScenarioStep {
+  request: string;
+  target?: string;
+  results?: string | ActivityRuntimeResults;
+}
+
+interface Scenario {
+  seed?: number;
+  steps: Array<string | ScenarioStep>;
+}
+
+async function main(): Promise<void> {
+  const args = process.argv.slice(2);
+  const showTrace = args.includes("--trace");
+  const organizationFlag = args.indexOf("--organization");
+  const organizationId = organizationFlag >= 0 ? args[organizationFlag + 1] : undefined;
+  const [packagePath, scenarioPath] = args.filter(
+    (arg, index) => !arg.startsWith("--") && (organizationFlag < 0 || index !== organizationFlag + 1)
+  );
+  if (!packagePath || !scenarioPath || (organizationFlag >= 0 && !organizationId)) {
+    console.error(
+      "Usage: simulate-sequencing <package.zip | imsmanifest.xml | directory> <scenario.json> [--trace] [--organization <id>]"
+    );
+    process.exit(1);
+  }
+
+  const manifest = await quietly(() => loadManifest(packagePath));
+  const scenario = JSON.parse(await fs.readFile(scenarioPath, "utf8")) as Scenario;
+  const organization = getOrganization(manifest, organizationId);
+  if (!organization) {
+    throw new Error(
+      organizationId
+        ? `The package has no organization ${organizationId}`
+        : "The package has no organization to sequence"
+    );
+  }
+
+  const engine = new SCORMSequencingEngine(manifest, {
+    seed: scenario.seed,
+    organizationId: organization.identifier,
+  });
+  engine.on("ruleEvaluated", (event) => {
+    if (event.result) {
+      console.log(`    rule: ${event.action} (${event.ruleType}) on ${event.activityId}`);
+    }
+  });
+  engine.on("navigationRequested", (event) => {
+    if (!event.valid) {
+      console.log(`    rejected: ${event.exception}`);
+    }
+  });
+  if (showTrace) {
+    engine.on("trace", (entry) => console.log(`    [${entry.process}] ${entry.message}`));
+  }
+
+  console.log(`Organization: ${organization.title} (${organization.identifier})`);
+
+  const steps = scenario.steps.map(parseStep);
+  for (const [index, step] of steps.entries()) {
+    const current = engine.getCurrentActivity();
+    const label = step.target ? `${step.request} ${step.target}` : step.request;
+    console.log(`\nStep ${index + 1}: ${label}`);
+
+    if (step.results) {
+      if (!current) {
+        console.log("    results ignored: no activity is delivered");
+      } else {
+        const results = typeof step.results === "string" ? parseResults(step.results) : step.results;
+        console.log(`    results for ${current}: ${JSON.stringify(results)}`);
+        engine.reportRuntimeResults(current, results);
+      }
+    }
+
+    const delivered = step.request === "start"
+      ? engine.startSequence()
+      : engine.processNavigationRequest(step.request, step.target);
+
+    if (delivered) {
+      console.log(`  Delivered: ${delivered}`);
+    } else if (engine.isSessionEnded()) {
+      const suspended = engine.getSuspendedActivity();
+      console.log(`  Session ended${suspended ? ` (suspended at ${suspended})` : ""}`);
+    } else {
+      console.log(`  Delivered: nothing (current activity: ${engine.getCurrentActivity() ?? "none"})`);
+    }
+
+    printActivityStatus(engine, organization.identifier, organization.title, organization.items);
+    console.log(`  Navigation: ${engine.getAvailableNavigationRequests().join(", ") || "none"}`);
+    console.log(`  Choice targets: ${engine.getValidChoiceTargets().join(", ") || "none"}`);
+  }
+}
+
+// Accepts a zip package, a manifest file or a directory containing one
+async function loadManifest(packagePath: string): Promise<SCORMManifest> {
+  const parser = new SCORMParser();
+  const stats = await fs.stat(packagePath);
+
+  if (stats.isDirectory()) {
+    const content = await fs.readFile(path.join(packagePath, "imsmanifest.xml"), "utf8");
+    return parser.parseManifest(content);
+  }
+  if (packagePath.toLowerCase().endsWith(".xml")) {
+    return parser.parseManifest(await fs.readFile(packagePath, "utf8"));
+  }
+
+  const buffer = await fs.readFile(packagePath);
+  const arrayBuffer = buffer.buffer.slice(buffer.byteOffset, buffer.byteOffset + buffer.byteLength) as ArrayBuffer;
+  return (await parser.loadFromArrayBuffer(arrayBuffer)).manifest;
+}
+
+// "choice item_2" is shorthand for { request: "choice", target: "item_2" }
+function parseStep(step: string | ScenarioStep): ScenarioStep {
+  if (typeof step !== "string") {
+    return step;
+  }
+  const [request, target] = step.trim().split(/\s+/);
+  return { request, target };
+}
+
+function parseResults(shorthand: string): ActivityRuntimeResults {
+  const results: ActivityRuntimeResults = {};
+
+  for (const token of shorthand.split(",").map((part) => part.trim()).filter(Boolean)) {
+    const [keyword, value] = token.split(/\s+/);
+    switch (keyword.toLowerCase()) {
+      case "satisfied":
+      case "passed":
+        results.successStatus = "passed";
+        break;
+      case "notsatisfied":
+      case "failed":
+        results.successStatus = "failed";
+        break;
+      case "completed":
+      case "incomplete":
+        results.completionStatus = keyword.toLowerCase();
+        break;
+      case "measure":
+      case "score":
+        results.scoreScaled = parseFloat(value);
+        break;
+      case "suspend":
+        results.exit = "suspend";
+        break;
+      default:
+        throw new Error(`Unknown result "${token}"`);
+    }
+  }
+  return results;
+}
+
+// One line per activity: satisfied, completed, measure and attempt count
+function printActivityStatus(
+  engine: SCORMSequencingEngine,
+  rootId: string,
+  rootTitle: string,
+  items: SCORMItem[]
+): void {
+  const { activities } = engine.exportState();
+
+  const printActivity = (identifier: string, title: string, children: SCORMItem[], depth: number) => {
+    const state = activities[identifier];
+    const marker = identifier === engine.getCurrentActivity() ? "*" : " ";
+    console.log(`  ${marker} ${"  ".repeat(depth)}${title} (${identifier}): ${formatStatus(state)}`);
+
+    for (const child of children) {
+      if (engine.isActivityAvailable(child.identifier)) {
+        printActivity(child.identifier, child.title, child.item || [], depth + 1);
+      }
+    }
+  };
+
+  console.log("  Status:");
+  printActivity(rootId, rootTitle, items, 0);
+}
+
+function formatStatus(state: ActivityStateSnapshot | undefined): string {
+  if (!state) {
+    return "unknown";
+  }
+
+  const primary = state.objectives["_primary_"];
+  const satisfied = primary?.objectiveProgressStatus
+    ? primary.objectiveSatisfiedStatus ? "satisfied" : "not satisfied"
+    : "satisfaction unknown";
+  const completed = state.activityProgressStatus
+    ? state.activityCompletionStatus ? "completed" : "incomplete"
+    : "completion unknown";
+  const measure = primary?.objectiveMeasureStatus ? `, measure ${primary.objectiveNormalizedMeasure}` : "";
+  return `${satisfied}, ${completed}${measure}, attempts ${state.activityAttemptCount}`;
+}
+
+// The parser logs its progress; keep the simulator's output readable
+async function quietly<T>(task: () => Promise<T>): Promise<T> {
+  const log = console.log;
+  console.log = () => {};
+  try {
+    return await task();
+  } finally {
+    console.log = log;
+  }
+}
+
+main().catch((error) => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+});
@@ -5,12 +5,14 @@ import Link from "next/link";
 import SCORMViewer from "@/components/SCORMViewer";
 import ErrorBoundary from "@/components/ErrorBoundary";
 import { SCORMValidator } from "@/lib/scorm-validator";
+import { SCORMLocalStorageAdapter } from "@/lib/scorm-persistence";
 
 export default function Home() {
   const [packageUrl, setPackageUrl] = useState("");
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [showPlayer, setShowPlayer] = useState(false);
+  const [persistenceAdapter] = useState(() => new SCORMLocalStorageAdapter());
 
   const handleLoadPackage = () => {
     if (!packageUrl.trim()) {
@@ -152,6 +154,7 @@ export default function Home() {
                 onError={handleError}
                 onProgress={handleProgress}
                 onCompletion={handleCompletion}
+                persistenceAdapter={persistenceAdapter}
                 className="w-full"
               />
             </ErrorBoundary>
@@ -3,6 +3,9 @@
 
 import React from "react";
 import { SCORMPackage } from "@/types/scorm";
+import { getEditionLabel } from "@/lib/scorm-edition";
+import { isDefaultOrganization } from "@/lib/scorm-organization";
+import { resolveXmlBase } from "@/lib/scorm-xml-base";
 
 interface SCORMInfoProps {
   packageData: SCORMPackage;
@@ -40,6 +43,17 @@ export default function SCORMInfo({
               <dt className="text-xs text-gray-500">Version</dt>
               <dd className="text-sm text-gray-900">{manifest.version}</dd>
             </div>
+            <div>
+              <dt className="text-xs text-gray-500">SCORM Edition</dt>
+              <dd className="text-sm text-gray-900">
+                {getEditionLabel(manifest.edition)}
+                {manifest.schemaversion && (
+                  <span className="ml-1 text-xs text-gray-500">
+                    (schemaversion: {manifest.schemaversion})
+                  </span>
+                )}
+              </dd>
+            </div>
             <div>
               <dt className="text-xs text-gray-500">Title</dt>
               <dd className="text-sm text-gray-900">{manifest.title}</dd>
@@ -79,6 +93,14 @@ export default function SCORMInfo({
                 {packageData.files.size}
               </dd>
             </div>
+            {packageData.files.size > 0 && (
+              <div>
+                <dt className="text-xs text-gray-500">Total Size</dt>
+                <dd className="text-sm text-gray-900">
+                  {formatBytes(packageData.files.totalBytes)}
+                </dd>
+              </div>
+            )}
             <div>
               <dt className="text-xs text-gray-500">Total Items</dt>
               <dd className="text-sm text-gray-900">
@@ -107,6 +129,11 @@ export default function SCORMInfo({
                 <div className="flex items-center justify-between mb-2">
                   <h5 className="text-sm font-medium text-gray-900">
                     {org.title}
+                    {isDefaultOrganization(manifest, org) && (
+                      <span className="ml-2 px-1.5 py-0.5 text-xs font-normal bg-blue-100 text-blue-800 rounded">
+                        Default
+                      </span>
+                    )}
                   </h5>
                   <span className="text-xs text-gray-500 font-mono">
                     {org.identifier}
@@ -144,20 +171,34 @@ export default function SCORMInfo({
                     Entry: {resource.href}
                   </p>
                 )}
+                {resource.base && (
+                  <p className="text-xs text-gray-600 mb-2">
+                    Base: {resource.base}
+                  </p>
+                )}
                 {resource.files.length > 0 && (
                   <div>
                     <p className="text-xs text-gray-500 mb-1">
                       Files ({resource.files.length}):
                     </p>
                     <div className="flex flex-wrap gap-1">
-                      {resource.files.map((file, fileIndex) => (
-                        <span
-                          key={fileIndex}
-                          className="inline-flex items-center px-2 py-1 rounded text-xs font-medium bg-gray-100 text-gray-800"
-                        >
-                          {file.href}
-                        </span>
-                      ))}
+                      {resource.files.map((file, fileIndex) => {
+                        const packageFile = packageData.files.get(resolveXmlBase(resource.base, file.href));
+                        return (
+                          <span
+                            key={fileIndex}
+                            title={packageFile?.contentType}
+                            className="inline-flex items-center px-2 py-1 rounded text-xs font-medium bg-gray-100 text-gray-800"
+                          >
+                            {file.href}
+                            {packageFile && (
+                              <span className="ml-1 text-gray-500">
+                                ({formatBytes(packageFile.size)})
+                              </span>
+                            )}
+                          </span>
+                        );
+                      })}
                     </div>
                   </div>
                 )}
@@ -197,3 +238,9 @@ function countItems(items: any[]): number {
     return total + 1 + (item.item ? countItems(item.item) : 0);
   }, 0);
 }
+
+function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
@@ -0,0 +1,161 @@
+"use client";
+
+import React, { useState } from "react";
+import { SCORMItem, SCORMOrganization } from "@/types/scorm";
+
+export type SCORMItemStatus =
+  | "not attempted"
+  | "incomplete"
+  | "completed"
+  | "passed"
+  | "failed"
+  | "browsed"
+  | "unknown";
+
+interface SCORMTableOfContentsProps {
+  organization: SCORMOrganization;
+  currentItemId?: string;
+  itemStatuses: Record<string, SCORMItemStatus>;
+  isLaunchable: (item: SCORMItem) => boolean;
+  isHidden?: (item: SCORMItem) => boolean; // Hides the item and its children
+  onSelectItem: (item: SCORMItem) => void;
+  className?: string;
+}
+
+export default function SCORMTableOfContents({
+  organization,
+  currentItemId,
+  itemStatuses,
+  isLaunchable,
+  isHidden,
+  onSelectItem,
+  className = "",
+}: SCORMTableOfContentsProps) {
+  const [collapsed, setCollapsed] = useState(false);
+
+  if (collapsed) {
+    return (
+      <div className={`border-r border-gray-200 bg-gray-50 ${className}`}>
+        <button
+          onClick={() => setCollapsed(false)}
+          className="p-2 text-gray-600 hover:text-gray-900"
+          title="Show table of contents"
+          aria-label="Show table of contents"
+        >
+          ☰
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <nav
+      className={`w-64 flex-shrink-0 border-r border-gray-200 bg-gray-50 overflow-y-auto ${className}`}
+      aria-label="Table of contents"
+    >
+      <div className="flex items-center justify-between px-3 py-2 border-b border-gray-200">
+        <h4 className="text-sm font-medium text-gray-900 truncate">
+          {organization.title}
+        </h4>
+        <button
+          onClick={() => setCollapsed(true)}
+          className="text-gray-500 hover:text-gray-900 text-sm"
+          title="Hide table of contents"
+          aria-label="Hide table of contents"
+        >
+          «
+        </button>
+      </div>
+      <TOCItems
+        items={organization.items}
+        currentItemId={currentItemId}
+        itemStatuses={itemStatuses}
+        isLaunchable={isLaunchable}
+        isHidden={isHidden}
+        onSelectItem={onSelectItem}
+      />
+    </nav>
+  );
+}
+
+interface TOCItemsProps {
+  items: SCORMItem[];
+  currentItemId?: string;
+  itemStatuses: Record<string, SCORMItemStatus>;
+  isLaunchable: (item: SCORMItem) => boolean;
+  isHidden?: (item: SCORMItem) => boolean;
+  onSelectItem: (item: SCORMItem) => void;
+  level?: number;
+}
+
+function TOCItems({ level = 0, ...props }: TOCItemsProps) {
+  const { items, currentItemId, itemStatuses, isLaunchable, isHidden, onSelectItem } = props;
+
+  return (
+    <ul className="py-1">
+      {items.map((item) => {
+        const children = item.item || [];
+
+        if (isHidden?.(item)) {
+          return null;
+        }
+
+        // Hidden items are not shown, but their visible children stay reachable
+        if (item.isvisible === false) {
+          return children.length > 0 ? (
+            <li key={item.identifier}>
+              <TOCItems {...props} items={children} level={level} />
+            </li>
+          ) : null;
+        }
+
+        const launchable = isLaunchable(item);
+        const isCurrent = item.identifier === currentItemId;
+        const status = itemStatuses[item.identifier] || "not attempted";
+
+        return (
+          <li key={item.identifier}>
+            <button
+              onClick={() => onSelectItem(item)}
+              disabled={!launchable}
+              className={`w-full flex items-center text-left px-3 py-1.5 text-sm ${
+                isCurrent
+                  ? "bg-blue-100 text-blue-900 font-medium"
+                  : launchable
+                    ? "text-gray-800 hover:bg-gray-100"
+                    : "text-gray-500 cursor-default"
+              }`}
+              style={{ paddingLeft: `${0.75 + level * 1}rem` }}
+              aria-current={isCurrent ? "page" : undefined}
+            >
+              {launchable && <StatusIcon status={status} />}
+              <span className="truncate">{item.title}</span>
+            </button>
+            {children.length > 0 && (
+              <TOCItems {...props} items={children} level={level + 1} />
+            )}
+          </li>
+        );
+      })}
+    </ul>
+  );
+}
+
+function StatusIcon({ status }: { status: SCORMItemStatus }) {
+  const icons: Record<SCORMItemStatus, { symbol: string; className: string }> = {
+    "not attempted": { symbol: "○", className: "text-gray-400" },
+    unknown: { symbol: "○", className: "text-gray-400" },
+    incomplete: { symbol: "◐", className: "text-yellow-600" },
+    browsed: { symbol: "◐", className: "text-yellow-600" },
+    completed: { symbol: "●", className: "text-green-600" },
+    passed: { symbol: "✓", className: "text-green-600" },
+    failed: { symbol: "✗", className: "text-red-600" },
+  };
+  const icon = icons[status];
+
+  return (
+    <span className={`mr-2 flex-shrink-0 ${icon.className}`} title={status}>
+      {icon.symbol}
+    </span>
+  );
+}
@@ -2,16 +2,39 @@
 "use client";
 
 import React, { useState, useEffect, useRef, useCallback } from "react";
-import { SCORMPackage, SCORMVersion } from "@/types/scorm";
+import {
+  SCORMPackage,
+  SCORMVersion,
+  SCORMEdition,
+  SCORMItem,
+  SCORMDataModel,
+} from "@/types/scorm";
 import { SCORMParser } from "@/lib/scorm-parser";
-import { setupSCORMAPI, SCORMAPIImplementation } from "@/lib/scorm-api";
-import { SCORMSequencingEngine } from "@/lib/scorm-sequencing-correct";
+import {
+  setupSCORMAPI,
+  SCORMAPIImplementation,
+  SCORMAPIOptions,
+  SCORMSessionTimes,
+} from "@/lib/scorm-api";
+import { SCORMPersistenceAdapter } from "@/lib/scorm-persistence";
+import { ObjectiveRuntimeResults, SCORMSequencingEngine } from "@/lib/scorm-sequencing-correct";
+import { SequencingTraceEntry } from "@/lib/scorm-sequencing-events";
+import { SCORMVirtualFileSystem } from "@/lib/scorm-vfs";
+import { getSCORMVersion, getEditionLabel } from "@/lib/scorm-edition";
+import { getOrganization } from "@/lib/scorm-organization";
+import { resolveXmlBase } from "@/lib/scorm-xml-base";
+import { parseSCORMDuration } from "@/lib/scorm-time";
+import SCORMTableOfContents, { SCORMItemStatus } from "@/components/SCORMTableOfContents";
 
 interface SCORMViewerProps {
   packageUrl: string;
   onError?: (error: string) => void;
   onProgress?: (progress: number) => void;
   onCompletion?: (status: string, score?: number) => void;
+  persistenceAdapter?: SCORMPersistenceAdapter; // Stores learner attempts between sessions
+  organizationId?: string; // Organization to deliver; the manifest's default when omitted
+  onTimeUpdate?: (times: SCORMSessionTimes) => void; // Session and accumulated total time on finish
+  onSequencingTrace?: (entry: SequencingTraceEntry) => void; // Opt-in trace of SCORM 2004 sequencing decisions
   className?: string;
 }
 
@@ -49,6 +72,10 @@ export default function SCORMViewer({
   onError,
   onProgress,
   onCompletion,
+  persistenceAdapter,
+  organizationId,
+  onTimeUpdate,
+  onSequencingTrace,
   className = "",
 }: SCORMViewerProps) {
   const [packageData, setPackageData] = useState<SCORMPackage | null>(null);
@@ -56,6 +83,13 @@ export default function SCORMViewer({
   const [error, setError] = useState<string | null>(null);
   const [currentUrl, setCurrentUrl] = useState<string>("");
   const [isInitialized, setIsInitialized] = useState(false);
+  const [attemptLoaded, setAttemptLoaded] = useState(false);
+  const [currentItemId, setCurrentItemId] = useState<string | null>(null);
+  const [itemStatuses, setItemStatuses] = useState<Record<string, SCORMItemStatus>>({});
+  const [navigationRequests, setNavigationRequests] = useState<string[]>([]);
+  const [validChoiceTargets, setValidChoiceTargets] = useState<string[]>([]);
+  const [sequencingEnded, setSequencingEnded] = useState(false);
+  const [sequencingSuspended, setSequencingSuspended] = useState(false);
   const [learnerData, setLearnerData] = useState<LearnerData>({
     name: "Learner",
     id: "learner_001",
@@ -74,15 +108,29 @@ export default function SCORMViewer({
   const apiRef = useRef<SCORMAPIImplementation | null>(null);
   const sequencingEngineRef = useRef<SCORMSequencingEngine | null>(null);
   const messageHandlerRef = useRef<((event: MessageEvent) => void) | null>(null);
+  const initializingRef = useRef(false);
+  const currentItemIdRef = useRef<string | null>(null);
+  currentItemIdRef.current = currentItemId;
+  const learnerIdRef = useRef(learnerData.id);
+  learnerIdRef.current = learnerData.id;
 
   // Enhanced SCORM API with interaction tracking
-  const setupEnhancedSCORMAPI = useCallback((version: SCORMVersion = "1.2") => {
-    const api = setupSCORMAPI(version);
+  const setupEnhancedSCORMAPI = useCallback((
+    version: SCORMVersion = "1.2",
+    edition?: SCORMEdition,
+    options: SCORMAPIOptions = {}
+  ) => {
+    const api = setupSCORMAPI(version, edition, options);
     
-    // Override SetValue to track interactions and progress
-    const originalSetValue = api.LMSSetValue.bind(api);
-    api.LMSSetValue = (element: string, value: string): string => {
-      console.log(`[SCORM API] SetValue: ${element} = ${value}`);
+    // Override SetValue to track interactions and progress. Both the SCORM 1.2
+    // and SCORM 2004 method names delegate to the version-neutral setValue.
+    const originalSetValue = api.setValue.bind(api);
+    api.setValue = (element: string, value: string): string => {
+      // Only track values the data model accepted
+      const result = originalSetValue(element, value);
+      if (result !== "true") {
+        return result;
+      }
       
       // Track interactions
       if (element.startsWith("cmi.interactions.")) {
@@ -90,52 +138,38 @@ export default function SCORMViewer({
       }
       
       // Track learner progress
-      if (element === "cmi.core.lesson_status") {
+      if (
+        element === "cmi.core.lesson_status" ||
+        element === "cmi.completion_status" ||
+        element === "cmi.success_status"
+      ) {
         setLearnerData(prev => ({ ...prev, status: value }));
+        const itemId = currentItemIdRef.current;
+        if (itemId) {
+          setItemStatuses(prev => ({ ...prev, [itemId]: getItemStatus(api.getDataModel(), version) }));
+        }
         if (value === "completed" || value === "passed" || value === "failed") {
-          const score = api.LMSGetValue("cmi.core.score.raw");
+          const score = api.getDataModel()[version === "1.2" ? "cmi.core.score.raw" : "cmi.score.raw"];
           onCompletion?.(value, score ? parseFloat(score) : undefined);
         }
       }
       
-      if (element === "cmi.core.score.raw") {
+      if (element === "cmi.core.score.raw" || element === "cmi.score.raw") {
         setLearnerData(prev => ({
           ...prev,
           score: { ...prev.score, raw: parseFloat(value) }
         }));
       }
       
-      if (element === "cmi.core.lesson_location") {
+      if (element === "cmi.core.lesson_location" || element === "cmi.location") {
         setLearnerData(prev => ({ ...prev, location: value }));
       }
       
-      return originalSetValue(element, value);
-    };
-
-    // Override GetValue to provide learner data
-    const originalGetValue = api.LMSGetValue.bind(api);
-    api.LMSGetValue = (element: string): string => {
-      console.log(`[SCORM API] GetValue: ${element}`);
-      
-      // Provide learner identification
-      if (element === "cmi.core.student_name") {
-        return learnerData.name;
-      }
-      if (element === "cmi.core.student_id") {
-        return learnerData.id;
-      }
-      
-      // Calculate session time
-      if (element === "cmi.core.session_time") {
-        const sessionDuration = Date.now() - sessionStartTime;
-        return formatSCORMTime(sessionDuration);
-      }
-      
-      return originalGetValue(element);
+      return result;
     };
 
     return api;
-  }, [learnerData, sessionStartTime, onCompletion]);
+  }, [onCompletion]);
 
   const handleInteractionUpdate = (element: string, value: string) => {
     const parts = element.split(".");
@@ -224,35 +258,35 @@ export default function SCORMViewer({
           switch (method) {
             case 'Initialize':
             case 'LMSInitialize':
-              result = apiRef.current.LMSInitialize(parameter || element || "");
+              result = apiRef.current.initialize(parameter || element || "");
               break;
             case 'Terminate':
             case 'LMSFinish':
-              result = apiRef.current.LMSFinish(parameter || element || "");
+              result = apiRef.current.terminate(parameter || element || "");
               break;
             case 'GetValue':
             case 'LMSGetValue':
-              result = apiRef.current.LMSGetValue(element || "");
+              result = apiRef.current.getValue(element || "");
               break;
             case 'SetValue':
             case 'LMSSetValue':
-              result = apiRef.current.LMSSetValue(element || "", value || "");
+              result = apiRef.current.setValue(element || "", value || "");
               break;
             case 'Commit':
             case 'LMSCommit':
-              result = apiRef.current.LMSCommit(parameter || element || "");
+              result = apiRef.current.commit(parameter || element || "");
               break;
             case 'GetLastError':
             case 'LMSGetLastError':
-              result = apiRef.current.LMSGetLastError();
+              result = apiRef.current.getLastError();
               break;
             case 'GetErrorString':
             case 'LMSGetErrorString':
-              result = apiRef.current.LMSGetErrorString(element || "");
+              result = apiRef.current.getErrorString(element || "");
               break;
             case 'GetDiagnostic':
             case 'LMSGetDiagnostic':
-              result = apiRef.current.LMSGetDiagnostic(parameter || element || "");
+              result = apiRef.current.getDiagnostic(parameter || element || "");
               break;
             default:
               result = "false";
@@ -283,7 +317,7 @@ export default function SCORMViewer({
 
     // Notify iframe that API is ready
     if (iframeRef.current?.contentWindow) {
-      const version = packageData?.manifest.schemaversion?.includes("2004") ? "2004" : "1.2";
+      const version = packageData ? getSCORMVersion(packageData.manifest.edition) : "1.2";
       setTimeout(() => {
         if (iframeRef.current?.contentWindow) {
           try {
@@ -337,9 +371,69 @@ export default function SCORMViewer({
     }
   }, []);
 
+  // Global shared objectives are scoped to the learner, and to this course
+  // unless the manifest makes them global to the system
+  const getObjectivesKey = useCallback((engine: SCORMSequencingEngine, data: SCORMPackage) => ({
+    learnerId: learnerIdRef.current,
+    courseId: engine.isObjectivesGlobalToSystem() ? undefined : data.manifest.identifier,
+  }), []);
+
+  // Restore a suspended course attempt and the learner's global objectives
+  // before the engine starts sequencing
+  const loadSequencingState = useCallback(async (engine: SCORMSequencingEngine, data: SCORMPackage) => {
+    if (!persistenceAdapter) return;
+
+    try {
+      const attemptKey = { courseId: data.manifest.identifier, learnerId: learnerIdRef.current };
+      const state = await persistenceAdapter.loadSequencingState?.(attemptKey);
+      if (state && !engine.importState(state.state)) {
+        // Left over from a course attempt that ended; this launch begins a new one
+        await persistenceAdapter.clearSequencingState?.(attemptKey);
+      }
+
+      const stored = await persistenceAdapter.loadGlobalObjectives?.(getObjectivesKey(engine, data));
+      if (stored) {
+        engine.setGlobalObjectives(stored.objectives);
+      }
+    } catch (error) {
+      console.warn("[SCORMViewer] Could not load sequencing state:", error);
+    }
+  }, [persistenceAdapter, getObjectivesKey]);
+
+  // The course attempt's state is only kept while it is suspended; once the
+  // session ends any other way, the next launch begins a new attempt
+  const saveSequencingState = useCallback(async () => {
+    const engine = sequencingEngineRef.current;
+    if (!engine || !packageData || !persistenceAdapter) return;
+
+    try {
+      const attemptKey = { courseId: packageData.manifest.identifier, learnerId: learnerIdRef.current };
+      const updatedAt = new Date().toISOString();
+      if (engine.getSuspendedActivity()) {
+        await persistenceAdapter.saveSequencingState?.(attemptKey, { state: engine.exportState(), updatedAt });
+      } else if (engine.isSessionEnded()) {
+        await persistenceAdapter.clearSequencingState?.(attemptKey);
+      }
+      await persistenceAdapter.saveGlobalObjectives?.(getObjectivesKey(engine, packageData), {
+        objectives: engine.getGlobalObjectives(),
+        updatedAt,
+      });
+    } catch (error) {
+      console.warn("[SCORMViewer] Could not save sequencing state:", error);
+    }
+  }, [packageData, persistenceAdapter, getObjectivesKey]);
+
   const loadPackage = useCallback(async () => {
     setLoading(true);
     setError(null);
+    setAttemptLoaded(false);
+    setCurrentItemId(null);
+    setItemStatuses({});
+    setNavigationRequests([]);
+    setValidChoiceTargets([]);
+    setSequencingEnded(false);
+    setSequencingSuspended(false);
+    sequencingEngineRef.current = null;
     
     try {
       console.log(`[SCORMViewer] Loading package from: ${packageUrl}`);
@@ -348,16 +442,51 @@ export default function SCORMViewer({
       const data = await parser.loadFromUrl(packageUrl, onProgress);
       
       console.log("[SCORMViewer] Package loaded:", data);
-      setPackageData(data);
-      
-      // Initialize sequencing engine for SCORM 2004
-      if (data.manifest.schemaversion?.includes("2004")) {
-        sequencingEngineRef.current = new SCORMSequencingEngine(data.manifest);
+
+      const organization = getOrganization(data.manifest, organizationId);
+      if (organizationId && !organization) {
+        throw new Error(`Organization ${organizationId} not found in SCORM package`);
       }
-      
+
+      // Zip packages must be mounted in the virtual file system before the
+      // iframe can request any of their files
+      if (data.packageId) {
+        await SCORMVirtualFileSystem.mountPackage(data);
+      }
+
+      // SCORM 2004 packages are navigated by the sequencing engine, which
+      // picks the first activity to deliver
+      let firstItem: SCORMItem | null = null;
+      if (getSCORMVersion(data.manifest.edition) === "2004" && organization) {
+        const engine = new SCORMSequencingEngine(data.manifest, { organizationId: organization.identifier });
+        if (onSequencingTrace) {
+          engine.on("trace", onSequencingTrace);
+        }
+        sequencingEngineRef.current = engine;
+        await loadSequencingState(engine, data);
+
+        // A course the learner suspended resumes where they left off
+        const activityId = engine.getSuspendedActivity()
+          ? engine.processNavigationRequest("resumeAll")
+          : engine.startSequence();
+        firstItem = activityId
+          ? findFirstItem(organization.items, (item) => item.identifier === activityId)
+          : null;
+        setNavigationRequests(engine.getAvailableNavigationRequests());
+        setValidChoiceTargets(engine.getValidChoiceTargets());
+      } else if (organization) {
+        // Launch the first item of the organization that has content
+        firstItem = findFirstItem(organization.items, (item) => parser.getItemResource(data, item) !== null);
+      }
+      const firstItemUrl = firstItem ? parser.getItemLaunchUrl(data, firstItem) : null;
+
       // Find entry point
-      const entryPoint = parser.getEntryPoint(data);
-      if (entryPoint) {
+      const entryPoint = firstItemUrl ? null : parser.getEntryPoint(data);
+      if (firstItem && firstItemUrl) {
+        console.log(`[SCORMViewer] Launching item ${firstItem.identifier}: ${firstItemUrl}`);
+        setCurrentItemId(firstItem.identifier);
+        setCurrentUrl(firstItemUrl);
+      } else if (entryPoint) {
         const url = parser.getResourceUrl(data, entryPoint);
         console.log(`[SCORMViewer] Entry point URL: ${url}`);
         setCurrentUrl(url);
@@ -365,14 +494,17 @@ export default function SCORMViewer({
         // For hosted content, try the first resource
         if (data.manifest.resources.length > 0) {
           const firstResource = data.manifest.resources[0];
-          const url = parser.getResourceUrl(data, firstResource.href);
+          const url = parser.getResourceUrl(data, resolveXmlBase(firstResource.base, firstResource.href));
           console.log(`[SCORMViewer] Using first resource URL: ${url}`);
           setCurrentUrl(url);
         } else {
           throw new Error("No resources found in SCORM package");
         }
       }
-      
+
+      // Set last: the runtime API is initialized as soon as the package is
+      // set, and needs the first item and the restored sequencing state
+      setPackageData(data);
     } catch (err) {
       let errorMessage = err instanceof Error ? err.message : "Failed to load SCORM package";
       
@@ -381,6 +513,8 @@ export default function SCORMViewer({
         errorMessage = `Unable to load SCORM package from URL. Please check:\n• The URL is correct and accessible\n• The server allows cross-origin requests (CORS)\n• The file exists at the specified location\n\nOriginal error: ${errorMessage}`;
       } else if (errorMessage.includes("not a valid zip file")) {
         errorMessage = `The URL does not point to a valid SCORM package. Please ensure:\n• The URL points to a .zip file containing a SCORM package\n• Or the URL points to a directory with an imsmanifest.xml file\n\nOriginal error: ${errorMessage}`;
+      } else if (errorMessage.includes("Service workers are not available")) {
+        errorMessage = `This browser cannot display zip SCORM packages. Please ensure:\n• The page is served over HTTPS or from localhost\n• Service workers are not disabled (e.g. by private browsing)\n\nOriginal error: ${errorMessage}`;
       } else if (errorMessage.includes("imsmanifest.xml not found")) {
         errorMessage = `No SCORM manifest found. Please ensure:\n• For zip files: the package contains an imsmanifest.xml file\n• For hosted content: the directory contains an imsmanifest.xml file\n\nOriginal error: ${errorMessage}`;
       }
@@ -391,19 +525,129 @@ export default function SCORMViewer({
     } finally {
       setLoading(false);
     }
-  }, [packageUrl, onProgress, onError]);
+  }, [packageUrl, organizationId, onProgress, onError, onSequencingTrace, loadSequencingState]);
+
+  // Switch the iframe to another item once the running SCO's data is saved;
+  // the next SCO starts with its own data model
+  const deliverItem = useCallback(async (item: SCORMItem) => {
+    if (!packageData) return;
+
+    const url = parserRef.current.getItemLaunchUrl(packageData, item);
+    if (!url) return;
+
+    await apiRef.current?.flush();
+
+    console.log(`[SCORMViewer] Launching item ${item.identifier}: ${url}`);
+    setAttemptLoaded(false);
+    setIsInitialized(false);
+    setCurrentItemId(item.identifier);
+    setCurrentUrl(url);
+  }, [packageData]);
+
+  // Run a navigation request through the sequencing engine and deliver the
+  // activity it identifies
+  const processNavigationRequest = useCallback((request: string, targetId?: string) => {
+    const engine = sequencingEngineRef.current;
+    const organization = packageData && getOrganization(packageData.manifest, organizationId);
+    if (!engine || !organization) return;
+
+    console.log(`[SCORMViewer] Navigation request: ${request}${targetId ? ` (${targetId})` : ""}`);
+    const activityId = engine.processNavigationRequest(request, targetId);
+    setNavigationRequests(engine.getAvailableNavigationRequests());
+    setValidChoiceTargets(engine.getValidChoiceTargets());
+    // Termination may have changed tracking state or global objectives
+    saveSequencingState();
+
+    if (activityId) {
+      const item = findFirstItem(organization.items, (candidate) => candidate.identifier === activityId);
+      if (item) {
+        deliverItem(item);
+      }
+    } else if (engine.isSessionEnded()) {
+      console.log("[SCORMViewer] Sequencing session ended");
+      setSequencingEnded(true);
+      setSequencingSuspended(!!engine.getSuspendedActivity());
+      setAttemptLoaded(false);
+      setCurrentItemId(null);
+    }
+  }, [packageData, organizationId, deliverItem, saveSequencingState]);
+
+  // Report the terminated SCO's results to the sequencing engine and follow
+  // the navigation request it left in adl.nav.request
+  const handleSCOTerminated = useCallback((api: SCORMAPIImplementation, itemId: string | null) => {
+    const engine = sequencingEngineRef.current;
+    if (!engine || !itemId) return;
+
+    const data = api.getDataModel();
+    engine.reportRuntimeResults(itemId, {
+      completionStatus: data["cmi.completion_status"],
+      successStatus: data["cmi.success_status"],
+      scoreScaled: data["cmi.score.scaled"] ? parseFloat(data["cmi.score.scaled"]) : undefined,
+      exit: data["cmi.exit"],
+      objectives: getRuntimeObjectives(data),
+    });
+
+    const { request, targetId } = parseNavigationRequest(data["adl.nav.request"]);
+    if (request === "_none_") {
+      // The learner navigates with the viewer's controls instead
+      setNavigationRequests(engine.getAvailableNavigationRequests());
+      setValidChoiceTargets(engine.getValidChoiceTargets());
+      saveSequencingState();
+      return;
+    }
+    processNavigationRequest(request, targetId);
+  }, [processNavigationRequest, saveSequencingState]);
 
-  const initializeSCORM = useCallback(() => {
+  // Navigation requested by the learner through the viewer. A running SCO is
+  // terminated on its behalf and carries the request, as if it had set
+  // adl.nav.request itself. Suspending the course also suspends the SCO so
+  // its runtime data is restored on resume.
+  const requestNavigation = useCallback((request: string, targetId?: string) => {
+    const api = apiRef.current;
+    if (api?.isInitialized()) {
+      api.setDataModel({
+        "adl.nav.request": (targetId
+          ? `{target=${targetId}}${request}`
+          : request) as SCORMDataModel["adl.nav.request"],
+        ...(request === "suspendAll" ? { "cmi.exit": "suspend" } : {}),
+      });
+      api.terminate("");
+    } else {
+      processNavigationRequest(request, targetId);
+    }
+  }, [processNavigationRequest]);
+
+  const initializeSCORM = useCallback(async () => {
     if (!packageData) return;
     
     try {
       console.log("[SCORMViewer] Initializing SCORM API");
       
       // Determine SCORM version
-      const version = packageData.manifest.schemaversion?.includes("2004") ? "2004" : "1.2";
+      const edition = packageData.manifest.edition;
+      const version = getSCORMVersion(edition);
       
       // Setup enhanced API
-      const api = setupEnhancedSCORMAPI(version);
+      const api = setupEnhancedSCORMAPI(version, edition, {
+        persistence: persistenceAdapter,
+        attemptKey: {
+          courseId: packageData.manifest.identifier,
+          learnerId: learnerData.id,
+          scoId: currentItemId ?? undefined,
+        },
+        onSessionTime: (times) => {
+          setLearnerData(prev => ({
+            ...prev,
+            sessionTime: formatSCORMTime(times.sessionTimeMs),
+            totalTime: formatSCORMTime(times.totalTimeMs),
+          }));
+          onTimeUpdate?.(times);
+        },
+        // Sequencing runs once the content's Terminate call has returned
+        onTerminate: () => {
+          setTimeout(() => handleSCOTerminated(api, currentItemId), 0);
+        },
+      });
       apiRef.current = api;
       
       // Make API globally available
@@ -424,23 +668,55 @@ export default function SCORMViewer({
       (window as any).getAPI = () => api;
       (window as any).getAPI_1484_11 = () => api;
       
-      // Initialize the session
-      const initResult = version === "1.2" ? 
-        api.LMSInitialize("") : 
-        api.Initialize("");
-        
-      if (initResult === "true") {
-        setIsInitialized(true);
-        console.log("[SCORMViewer] SCORM API initialized successfully");
-        
-        // Set initial learner data
-        api.LMSSetValue("cmi.core.student_name", learnerData.name);
-        api.LMSSetValue("cmi.core.student_id", learnerData.id);
-        api.LMSSetValue("cmi.core.lesson_status", "incomplete");
-        api.LMSCommit("");
+      // Resume a suspended attempt (or start a new one) before the content
+      // can start. The content itself calls Initialize/LMSInitialize, so the
+      // host must not start the session.
+      const resumed = await api.loadAttempt();
+
+      // Seed learner identity after restoring so the host's values win
+      if (version === "1.2") {
+        api.setDataModel({
+          "cmi.core.student_name": learnerData.name,
+          "cmi.core.student_id": learnerData.id,
+        });
       } else {
-        throw new Error("Failed to initialize SCORM API");
+        api.setDataModel({
+          "cmi.learner_name": learnerData.name,
+          "cmi.learner_id": learnerData.id,
+        });
+
+        const engine = sequencingEngineRef.current;
+        if (engine) {
+          const available = engine.getAvailableNavigationRequests();
+          api.setDataModel({
+            "adl.nav.request_valid.continue": available.includes("continue") ? "true" : "false",
+            "adl.nav.request_valid.previous": available.includes("previous") ? "true" : "false",
+          });
+        }
       }
+
+      if (resumed) {
+        const data = api.getDataModel();
+        const rawScore = version === "1.2" ? data["cmi.core.score.raw"] : data["cmi.score.raw"];
+        const totalTime = data[version === "1.2" ? "cmi.core.total_time" : "cmi.total_time"];
+        const totalTimeMs = totalTime ? parseSCORMDuration(totalTime, version) : null;
+        setLearnerData(prev => ({
+          ...prev,
+          status:
+            (version === "1.2" ? data["cmi.core.lesson_status"] : data["cmi.completion_status"]) ||
+            prev.status,
+          location: (version === "1.2" ? data["cmi.core.lesson_location"] : data["cmi.location"]) || "",
+          score: rawScore ? { ...prev.score, raw: parseFloat(rawScore) } : prev.score,
+          totalTime: totalTimeMs !== null ? formatSCORMTime(totalTimeMs) : prev.totalTime,
+        }));
+        if (currentItemId) {
+          setItemStatuses(prev => ({ ...prev, [currentItemId]: getItemStatus(data, version) }));
+        }
+      }
+      setAttemptLoaded(true);
+
+      setIsInitialized(true);
+      console.log("[SCORMViewer] SCORM API initialized successfully");
       
     } catch (err) {
       const errorMessage = err instanceof Error ? err.message : "Failed to initialize SCORM";
@@ -448,7 +724,42 @@ export default function SCORMViewer({
       setError(errorMessage);
       onError?.(errorMessage);
     }
-  }, [packageData, setupEnhancedSCORMAPI, learnerData, onError]);
+  }, [packageData, currentItemId, setupEnhancedSCORMAPI, learnerData, persistenceAdapter, onTimeUpdate, onError, handleSCOTerminated]);
+
+  // Under sequencing, only activities the engine accepts as choice targets
+  // can be launched from the table of contents
+  const isItemLaunchable = useCallback((item: SCORMItem) => {
+    if (!packageData || parserRef.current.getItemResource(packageData, item) === null) {
+      return false;
+    }
+    return !sequencingEngineRef.current || validChoiceTargets.includes(item.identifier);
+  }, [packageData, validChoiceTargets]);
+
+  // Sequencing rules can hide activities from choice as tracking data changes,
+  // so this is re-evaluated on every render. Activities left out by selection
+  // are not part of this attempt.
+  const isItemHidden = (item: SCORMItem) => {
+    const engine = sequencingEngineRef.current;
+    if (!engine) return false;
+    return !engine.isActivityAvailable(item.identifier) || engine.isActivityHiddenFromChoice(item.identifier);
+  };
+
+  // Launch another item from the table of contents
+  const launchItem = useCallback(async (item: SCORMItem) => {
+    if (!packageData || item.identifier === currentItemId) return;
+
+    if (sequencingEngineRef.current) {
+      requestNavigation("choice", item.identifier);
+      return;
+    }
+
+    // Terminate the running SCO on its behalf before switching
+    const api = apiRef.current;
+    if (api?.isInitialized()) {
+      api.terminate("");
+    }
+    await deliverItem(item);
+  }, [packageData, currentItemId, requestNavigation, deliverItem]);
 
   const handleIframeLoad = useCallback(() => {
     console.log("[SCORMViewer] Iframe loaded");
@@ -462,7 +773,7 @@ export default function SCORMViewer({
         console.log("[SCORMViewer] Same-origin access confirmed");
         
         // Inject API into iframe
-        const version = packageData?.manifest.schemaversion?.includes("2004") ? "2004" : "1.2";
+        const version = packageData ? getSCORMVersion(packageData.manifest.edition) : "1.2";
         if (version === "1.2") {
           (iframeWindow as any).API = apiRef.current;
         } else {
@@ -488,17 +799,15 @@ export default function SCORMViewer({
 
   const handleFinish = useCallback(() => {
     if (apiRef.current && isInitialized) {
-      const version = packageData?.manifest.schemaversion?.includes("2004") ? "2004" : "1.2";
-      const finishResult = version === "1.2" ? 
-        apiRef.current.LMSFinish("") : 
-        apiRef.current.Terminate("");
-        
-      if (finishResult === "true") {
-        setIsInitialized(false);
-        console.log("[SCORMViewer] SCORM session finished");
+      // Terminate on behalf of content that is still running
+      if (apiRef.current.isInitialized()) {
+        apiRef.current.terminate("");
       }
+
+      setIsInitialized(false);
+      console.log("[SCORMViewer] SCORM session finished");
     }
-  }, [isInitialized, packageData]);
+  }, [isInitialized]);
 
   // Load package on mount or URL change
   useEffect(() => {
@@ -509,10 +818,25 @@ export default function SCORMViewer({
 
   // Initialize SCORM when package is loaded
   useEffect(() => {
-    if (packageData && !isInitialized) {
-      initializeSCORM();
+    if (packageData && !isInitialized && !sequencingEnded && !initializingRef.current) {
+      initializingRef.current = true;
+      initializeSCORM().finally(() => {
+        initializingRef.current = false;
+      });
     }
-  }, [packageData, isInitialized, initializeSCORM]);
+  }, [packageData, isInitialized, sequencingEnded, initializeSCORM]);
+
+  // Release virtual file system entries when the package changes or on unmount
+  useEffect(() => {
+    const packageId = packageData?.packageId;
+    if (!packageId) return;
+
+    return () => {
+      SCORMVirtualFileSystem.unmountPackage(packageId).catch((unmountError) => {
+        console.warn("[SCORMViewer] Failed to unmount package:", unmountError);
+      });
+    };
+  }, [packageData]);
 
   // Cleanup message listener on unmount
   useEffect(() => {
@@ -560,7 +884,7 @@ export default function SCORMViewer({
     );
   }
 
-  if (!packageData || !currentUrl) {
+  if (!packageData || (!currentUrl && !sequencingEnded)) {
     return (
       <div className={`p-6 text-center ${className}`}>
         <p className="text-gray-600">No SCORM content to display</p>
@@ -568,6 +892,8 @@ export default function SCORMViewer({
     );
   }
 
+  const organization = getOrganization(packageData.manifest, organizationId);
+
   return (
     <div className={`bg-white border border-gray-200 rounded-lg overflow-hidden ${className}`}>
       {/* Header */}
@@ -585,13 +911,45 @@ export default function SCORMViewer({
           </div>
           <div className="flex items-center space-x-2">
             <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-blue-100 text-blue-800">
-              SCORM {packageData.manifest.schemaversion?.includes("2004") ? "2004" : "1.2"}
+              {getEditionLabel(packageData.manifest.edition)}
             </span>
             {isInitialized && (
               <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-green-100 text-green-800">
                 {learnerData.status}
               </span>
             )}
+            {sequencingEngineRef.current && !sequencingEnded && (
+              <div className="flex items-center space-x-1 ml-2">
+                <button
+                  onClick={() => requestNavigation("previous")}
+                  disabled={!navigationRequests.includes("previous")}
+                  className="bg-white border border-gray-300 hover:bg-gray-100 text-gray-800 px-2 py-1 rounded text-xs font-medium disabled:opacity-50"
+                >
+                  Previous
+                </button>
+                <button
+                  onClick={() => requestNavigation("continue")}
+                  disabled={!navigationRequests.includes("continue")}
+                  className="bg-white border border-gray-300 hover:bg-gray-100 text-gray-800 px-2 py-1 rounded text-xs font-medium disabled:opacity-50"
+                >
+                  Continue
+                </button>
+                <button
+                  onClick={() => requestNavigation("exitAll")}
+                  disabled={!navigationRequests.includes("exitAll")}
+                  className="bg-white border border-gray-300 hover:bg-gray-100 text-gray-800 px-2 py-1 rounded text-xs font-medium disabled:opacity-50"
+                >
+                  Exit
+                </button>
+                <button
+                  onClick={() => requestNavigation("suspendAll")}
+                  disabled={!navigationRequests.includes("suspendAll")}
+                  className="bg-white border border-gray-300 hover:bg-gray-100 text-gray-800 px-2 py-1 rounded text-xs font-medium disabled:opacity-50"
+                >
+                  Suspend
+                </button>
+              </div>
+            )}
           </div>
         </div>
       </div>
@@ -613,6 +971,9 @@ export default function SCORMViewer({
               <span className="text-blue-700">
                 Time: {formatSCORMTime(Date.now() - sessionStartTime)}
               </span>
+              <span className="text-blue-700">
+                Total: {learnerData.totalTime}
+              </span>
             </div>
             <div className="flex items-center space-x-2">
               {learnerData.interactions.length > 0 && (
@@ -633,20 +994,42 @@ export default function SCORMViewer({
       )}
 
       {/* Content Area */}
-      <div className="relative">
-        <iframe
-          ref={iframeRef}
-          src={currentUrl}
-          className="w-full h-[600px] border-0"
-          onLoad={handleIframeLoad}
-          onError={(e) => {
-            console.error("[SCORMViewer] Iframe failed to load:", e);
-            setError(`Failed to load SCORM content from: ${currentUrl}`);
-          }}
-          title="SCORM Content"
-          allow="autoplay; camera; microphone; geolocation; fullscreen"
-          sandbox="allow-same-origin allow-scripts allow-forms allow-popups allow-popups-to-escape-sandbox allow-presentation allow-downloads allow-top-navigation"
-        />
+      <div className="flex">
+        {organization && (
+          <SCORMTableOfContents
+            organization={organization}
+            currentItemId={currentItemId ?? undefined}
+            itemStatuses={itemStatuses}
+            isLaunchable={isItemLaunchable}
+            isHidden={isItemHidden}
+            onSelectItem={launchItem}
+            className="h-[600px]"
+          />
+        )}
+        <div className="relative flex-1 min-w-0">
+          {sequencingEnded && (
+            <div className="flex items-center justify-center h-[600px] text-gray-600">
+              {sequencingSuspended
+                ? "This course has been suspended. It will resume where you left off."
+                : "This course has ended."}
+            </div>
+          )}
+          {attemptLoaded && (
+            <iframe
+              ref={iframeRef}
+              src={currentUrl}
+              className="w-full h-[600px] border-0"
+              onLoad={handleIframeLoad}
+              onError={(e) => {
+                console.error("[SCORMViewer] Iframe failed to load:", e);
+                setError(`Failed to load SCORM content from: ${currentUrl}`);
+              }}
+              title="SCORM Content"
+              allow="autoplay; camera; microphone; geolocation; fullscreen"
+              sandbox="allow-same-origin allow-scripts allow-forms allow-popups allow-popups-to-escape-sandbox allow-presentation allow-downloads allow-top-navigation"
+            />
+          )}
+        </div>
       </div>
 
       {/* Debug Panel */}
@@ -672,4 +1055,56 @@ export default function SCORMViewer({
       )}
     </div>
   );
-}
\ No newline at end of file
+}
+
+// Depth-first search of the activity tree, skipping hidden items
+function findFirstItem(
+  items: SCORMItem[],
+  predicate: (item: SCORMItem) => boolean
+): SCORMItem | null {
+  for (const item of items) {
+    if (item.isvisible !== false && predicate(item)) {
+      return item;
+    }
+    const child = item.item ? findFirstItem(item.item, predicate) : null;
+    if (child) {
+      return child;
+    }
+  }
+  return null;
+}
+
+// Split an adl.nav.request value such as {target=item_2}choice
+function parseNavigationRequest(value: string | undefined): { request: string; targetId?: string } {
+  const match = /^\{target=([^}]*)\}(.+)$/.exec(value || "");
+  if (match) {
+    return { request: match[2], targetId: match[1] };
+  }
+  return { request: value || "_none_" };
+}
+
+function getRuntimeObjectives(data: SCORMDataModel): ObjectiveRuntimeResults[] {
+  const objectives: ObjectiveRuntimeResults[] = [];
+  for (let index = 0; data[`cmi.objectives.${index}.id`] !== undefined; index++) {
+    const scoreScaled = data[`cmi.objectives.${index}.score.scaled`];
+    objectives.push({
+      id: data[`cmi.objectives.${index}.id`] as string,
+      successStatus: data[`cmi.objectives.${index}.success_status`],
+      scoreScaled: scoreScaled ? parseFloat(scoreScaled) : undefined,
+    });
+  }
+  return objectives;
+}
+
+function getItemStatus(data: SCORMDataModel, version: SCORMVersion): SCORMItemStatus {
+  if (version === "1.2") {
+    return (data["cmi.core.lesson_status"] || "not attempted") as SCORMItemStatus;
+  }
+
+  // Success status takes precedence over completion when it is known
+  const successStatus = data["cmi.success_status"];
+  if (successStatus === "passed" || successStatus === "failed") {
+    return successStatus;
+  }
+  return (data["cmi.completion_status"] || "unknown") as SCORMItemStatus;
+}
@@ -0,0 +1,176 @@
+import { beforeEach, mock, test } from "node:test";
+import assert from "node:assert/strict";
+import { SCORM12APIImplementation, SCORM2004APIImplementation } from "@/lib/scorm-api";
+import { SCORMEdition } from "@/types/scorm";
+
+// Rejected calls report their diagnostic on the console
+beforeEach(() => {
+  mock.method(console, "error", () => {});
+});
+
+function initialize12(): SCORM12APIImplementation {
+  const api = new SCORM12APIImplementation();
+  api.LMSInitialize("");
+  return api;
+}
+
+function initialize2004(edition: SCORMEdition = "2004-4th"): SCORM2004APIImplementation {
+  const api = new SCORM2004APIImplementation(edition);
+  api.Initialize("");
+  return api;
+}
+
+test("SCORM 1.2 lesson_status rejects the LMS-only not attempted", () => {
+  const api = initialize12();
+
+  assert.equal(api.LMSGetValue("cmi.core.lesson_status"), "not attempted");
+  assert.equal(api.LMSSetValue("cmi.core.lesson_status", "not attempted"), "false");
+  assert.equal(api.LMSGetLastError(), "405");
+  assert.equal(api.LMSSetValue("cmi.core.lesson_status", "incomplete"), "true");
+  // Objective statuses may still be set to not attempted
+  assert.equal(api.LMSSetValue("cmi.objectives.0.id", "obj"), "true");
+  assert.equal(api.LMSSetValue("cmi.objectives.0.status", "not attempted"), "true");
+});
+
+test("adl.nav.request accepts jump only in SCORM 2004 4th Edition", () => {
+  const fourth = initialize2004("2004-4th");
+  assert.equal(fourth.SetValue("adl.nav.request", "{target=item_2}jump"), "true");
+  assert.equal(fourth.SetValue("adl.nav.request", "{target=item_2}choice"), "true");
+
+  const third = initialize2004("2004-3rd");
+  assert.equal(third.SetValue("adl.nav.request", "{target=item_2}jump"), "false");
+  assert.equal(third.GetLastError(), "406");
+  assert.equal(third.SetValue("adl.nav.request", "{target=item_2}choice"), "true");
+});
+
+test("SCORM 2004 calls report the error code for the API state", () => {
+  const api = new SCORM2004APIImplementation("2004-4th");
+
+  assert.equal(api.GetValue("cmi.location"), "");
+  assert.equal(api.GetLastError(), "122");
+  assert.equal(api.SetValue("cmi.location", "page-1"), "false");
+  assert.equal(api.GetLastError(), "132");
+  assert.equal(api.Commit(""), "false");
+  assert.equal(api.GetLastError(), "142");
+  assert.equal(api.Terminate(""), "false");
+  assert.equal(api.GetLastError(), "112");
+
+  assert.equal(api.Initialize(""), "true");
+  assert.equal(api.GetLastError(), "0");
+  assert.equal(api.Initialize(""), "false");
+  assert.equal(api.GetLastError(), "103");
+
+  assert.equal(api.Terminate(""), "true");
+  assert.equal(api.GetValue("cmi.location"), "");
+  assert.equal(api.GetLastError(), "123");
+  assert.equal(api.SetValue("cmi.location", "page-1"), "false");
+  assert.equal(api.GetLastError(), "133");
+  assert.equal(api.Commit(""), "false");
+  assert.equal(api.GetLastError(), "143");
+  assert.equal(api.Terminate(""), "false");
+  assert.equal(api.GetLastError(), "113");
+  assert.equal(api.Initialize(""), "false");
+  assert.equal(api.GetLastError(), "104");
+});
+
+test("SCORM 2004 data model errors", () => {
+  const api = initialize2004();
+
+  assert.equal(api.GetValue("cmi.unknown"), "");
+  assert.equal(api.GetLastError(), "401");
+  assert.equal(api.SetValue("cmi.learner_id", "someone"), "false");
+  assert.equal(api.GetLastError(), "404");
+  assert.equal(api.SetValue("cmi.objectives._count", "1"), "false");
+  assert.equal(api.GetLastError(), "404");
+  assert.equal(api.GetValue("cmi.exit"), "");
+  assert.equal(api.GetLastError(), "405");
+  assert.equal(api.SetValue("cmi.completion_status", "done"), "false");
+  assert.equal(api.GetLastError(), "406");
+  assert.equal(api.SetValue("cmi.score.scaled", "1.5"), "false");
+  assert.equal(api.GetLastError(), "407");
+  assert.equal(api.GetValue("cmi.location"), "");
+  assert.equal(api.GetLastError(), "403");
+  assert.equal(api.GetErrorString("403"), "Data Model Element Value Not Initialized");
+  assert.match(api.GetDiagnostic(""), /cmi\.location/);
+});
+
+test("SCORM 1.2 calls report the error code for the API state", () => {
+  const api = new SCORM12APIImplementation();
+
+  assert.equal(api.LMSGetValue("cmi.core.lesson_location"), "");
+  assert.equal(api.LMSGetLastError(), "301");
+  assert.equal(api.LMSCommit(""), "false");
+  assert.equal(api.LMSGetLastError(), "301");
+  assert.equal(api.LMSInitialize("x"), "false");
+  assert.equal(api.LMSGetLastError(), "201");
+
+  assert.equal(api.LMSInitialize(""), "true");
+  assert.equal(api.LMSInitialize(""), "false");
+  assert.equal(api.LMSGetLastError(), "101");
+  assert.equal(api.LMSSetValue("cmi.core.student_id", "someone"), "false");
+  assert.equal(api.LMSGetLastError(), "403");
+  assert.equal(api.LMSGetValue("cmi.core.exit"), "");
+  assert.equal(api.LMSGetLastError(), "404");
+  assert.equal(api.LMSSetValue("cmi.core._children", "x"), "false");
+  assert.equal(api.LMSGetLastError(), "402");
+  assert.equal(api.LMSSetValue("cmi.core.score.raw", "101"), "false");
+  assert.equal(api.LMSGetLastError(), "405");
+
+  assert.equal(api.LMSFinish(""), "true");
+  assert.equal(api.LMSSetValue("cmi.core.lesson_location", "page-1"), "false");
+  assert.equal(api.LMSGetLastError(), "301");
+});
+
+test("collection items are added in order and counted", () => {
+  const api = initialize2004();
+
+  assert.equal(api.GetValue("cmi.objectives._count"), "0");
+  assert.equal(api.SetValue("cmi.objectives.1.id", "obj_2"), "false");
+  assert.equal(api.GetLastError(), "351");
+  assert.equal(api.SetValue("cmi.objectives.0.id", "obj_1"), "true");
+  assert.equal(api.SetValue("cmi.objectives.1.id", "obj_2"), "true");
+  assert.equal(api.GetValue("cmi.objectives._count"), "2");
+
+  // Existing items can be updated
+  assert.equal(api.SetValue("cmi.objectives.0.success_status", "passed"), "true");
+  assert.equal(api.GetValue("cmi.objectives.0.success_status"), "passed");
+  assert.equal(api.GetValue("cmi.objectives.2.id"), "");
+  assert.equal(api.GetLastError(), "301");
+
+  // Nested collections follow the same rules
+  assert.equal(api.SetValue("cmi.interactions.0.id", "q1"), "true");
+  assert.equal(api.SetValue("cmi.interactions.0.objectives.1.id", "obj_1"), "false");
+  assert.equal(api.GetLastError(), "351");
+  assert.equal(api.SetValue("cmi.interactions.0.objectives.0.id", "obj_1"), "true");
+  assert.equal(api.GetValue("cmi.interactions.0.objectives._count"), "1");
+  assert.equal(api.GetValue("cmi.interactions._count"), "1");
+});
+
+test("objective identifiers are unique and set before the other fields", () => {
+  const api = initialize2004();
+
+  assert.equal(api.SetValue("cmi.objectives.0.success_status", "passed"), "false");
+  assert.equal(api.GetLastError(), "408");
+  assert.equal(api.SetValue("cmi.objectives.0.id", "obj_1"), "true");
+  assert.equal(api.SetValue("cmi.objectives.1.id", "obj_1"), "false");
+  assert.equal(api.GetLastError(), "351");
+  assert.equal(api.GetValue("cmi.objectives._count"), "1");
+
+  // Interactions may repeat an identifier, but correct responses need a type
+  assert.equal(api.SetValue("cmi.interactions.0.id", "q1"), "true");
+  assert.equal(api.SetValue("cmi.interactions.1.id", "q1"), "true");
+  assert.equal(api.SetValue("cmi.interactions.0.correct_responses.0.pattern", "true"), "false");
+  assert.equal(api.GetLastError(), "408");
+  assert.equal(api.SetValue("cmi.interactions.0.type", "true-false"), "true");
+  assert.equal(api.SetValue("cmi.interactions.0.correct_responses.0.pattern", "true"), "true");
+});
+
+test("SCORM 1.2 collection items out of order are rejected", () => {
+  const api = initialize12();
+
+  assert.equal(api.LMSSetValue("cmi.interactions.1.id", "q2"), "false");
+  assert.equal(api.LMSGetLastError(), "201");
+  assert.equal(api.LMSSetValue("cmi.interactions.0.id", "q1"), "true");
+  assert.equal(api.LMSGetValue("cmi.interactions._count"), "1");
+  assert.equal(api.LMSGetValue("cmi.objectives._count"), "0");
+});
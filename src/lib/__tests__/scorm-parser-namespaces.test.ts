@@ -0,0 +1,141 @@
+import { beforeEach, mock, test } from "node:test";
+import assert from "node:assert/strict";
+import { promises as fs } from "fs";
+import path from "path";
+import { SCORMParser } from "@/lib/scorm-parser";
+import { SCORMItem, SCORMManifest, SCORMSequencing } from "@/types/scorm";
+
+// Manifests laid out as each authoring tool publishes them, covering the
+// namespace styles seen in the wild: conventional prefixes under a default
+// IMS CP namespace (Articulate), SCORM 1.2 namespaces (Captivate), default
+// namespaces declared on nested elements (iSpring) and unconventional
+// prefixes throughout (Lectora)
+async function parseFixture(name: string): Promise<SCORMManifest> {
+  const content = await fs.readFile(path.join(__dirname, "fixtures", "manifests", name), "utf8");
+  return new SCORMParser().parseManifest(content);
+}
+
+function assertChoiceAndFlow(sequencing: SCORMSequencing | undefined): void {
+  assert.equal(sequencing?.controlMode?.choice, true);
+  assert.equal(sequencing?.controlMode?.flow, true);
+}
+
+function findItem(items: SCORMItem[], identifier: string): SCORMItem | undefined {
+  for (const item of items) {
+    if (item.identifier === identifier) return item;
+    const found = findItem(item.item || [], identifier);
+    if (found) return found;
+  }
+  return undefined;
+}
+
+beforeEach(() => {
+  // The parser logs its progress
+  mock.method(console, "log", () => {});
+});
+
+test("Articulate Storyline: default IMS CP namespace with conventional prefixes", async () => {
+  const manifest = await parseFixture("articulate-storyline-2004.xml");
+  const [organization] = manifest.organizations;
+
+  assert.equal(manifest.edition, "2004-4th");
+  assert.equal(manifest.defaultOrganization, "Storyline_Course_6Qm2vKx_ORG");
+  assert.equal(organization.title, "Workplace Safety Essentials");
+  assertChoiceAndFlow(organization.sequencing);
+
+  const sco = findItem(organization.items, "Storyline_Course_6Qm2vKx_SCO");
+  assert.equal(sco?.identifierref, "Storyline_Course_6Qm2vKx_RES");
+  assert.equal(sco?.sequencing?.objectives?.primaryObjective?.objectiveID, "PRIMARYOBJ");
+  assert.equal(sco?.sequencing?.deliveryControls?.completionSetByContent, true);
+
+  assert.deepEqual(
+    manifest.resources.map((resource) => [resource.identifier, resource.scormType, resource.files.length]),
+    [
+      ["Storyline_Course_6Qm2vKx_RES", "sco", 3],
+      ["Storyline_Course_6Qm2vKx_SHARED", "asset", 1],
+    ]
+  );
+  assert.deepEqual(manifest.resources[0].dependencies, [{ identifierref: "Storyline_Course_6Qm2vKx_SHARED" }]);
+});
+
+test("Adobe Captivate: SCORM 1.2 namespaces and adlcp item elements", async () => {
+  const manifest = await parseFixture("captivate-scorm12.xml");
+  const [organization] = manifest.organizations;
+
+  assert.equal(manifest.edition, "1.2");
+  assert.equal(organization.title, "Product Knowledge Quiz");
+
+  const sco = findItem(organization.items, "Captivate_Quiz_SCO");
+  assert.equal(sco?.mastery_score, 80);
+  assert.equal(sco?.max_time_allowed, "00:45:00");
+  assert.equal(sco?.time_limit_action, "continue,no message");
+
+  const [resource] = manifest.resources;
+  assert.equal(resource.href, "index_scorm.html");
+  assert.equal(resource.scormType, "sco");
+  assert.equal(resource.files.length, 4);
+});
+
+test("iSpring: default namespaces declared on sequencing and presentation elements", async () => {
+  const manifest = await parseFixture("ispring-2004.xml");
+  const [organization] = manifest.organizations;
+
+  assert.equal(manifest.edition, "2004-3rd");
+  assert.equal(organization.objectivesGlobalToSystem, false);
+  assertChoiceAndFlow(organization.sequencing);
+  assert.equal(organization.sequencing?.controlMode?.forwardOnly, false);
+
+  const first = findItem(organization.items, "iSpring_SCO_1");
+  assert.equal(first?.sequencing?.limitConditions?.attemptLimit, 3);
+  assert.equal(first?.sequencing?.deliveryControls?.objectiveSetByContent, true);
+  assert.deepEqual(first?.presentation?.navigationInterface?.hideLMSUI, ["continue", "previous"]);
+
+  const second = findItem(organization.items, "iSpring_SCO_2");
+  const [rule] = second?.sequencing?.sequencingRules?.preConditionRule || [];
+  assert.equal(rule?.action, "skip");
+  assert.deepEqual(rule?.ruleConditions.map((condition) => condition.condition), ["satisfied"]);
+
+  assert.deepEqual(
+    manifest.resources.map((resource) => [resource.identifier, resource.scormType]),
+    [
+      ["iSpring_RES_1", "sco"],
+      ["iSpring_RES_2", "sco"],
+    ]
+  );
+});
+
+test("Lectora: unconventional prefixes and a prefixed sequencingCollection", async () => {
+  const manifest = await parseFixture("lectora-2004.xml");
+  const [organization] = manifest.organizations;
+
+  assert.equal(manifest.identifier, "Lectora_Title_Manifest");
+  assert.equal(manifest.edition, "2004-4th");
+  assert.equal(manifest.defaultOrganization, "Lectora_ORG");
+  assert.equal(organization.title, "Data Privacy Training");
+  assert.equal(organization.objectivesGlobalToSystem, false);
+  assertChoiceAndFlow(organization.sequencing);
+
+  const chapter = findItem(organization.items, "Lectora_Chapter_1");
+  assert.equal(chapter?.title, "Chapter 1");
+  assert.equal(chapter?.item?.length, 2);
+  assertChoiceAndFlow(chapter?.sequencing);
+
+  assert.deepEqual(manifest.sequencingCollection?.sequencing?.map((sequencing) => sequencing.id), ["Lectora_Shared_SCO"]);
+  const introduction = findItem(organization.items, "Lectora_Page_1");
+  assert.equal(introduction?.sequencing?.limitConditions?.attemptLimit, 5);
+  assert.equal(introduction?.sequencing?.deliveryControls?.tracked, true);
+
+  const assessment = findItem(organization.items, "Lectora_Page_2");
+  assert.equal(assessment?.sequencing?.limitConditions?.attemptLimit, 2);
+  assert.equal(assessment?.sequencing?.deliveryControls?.completionSetByContent, true);
+  assert.deepEqual(assessment?.presentation?.navigationInterface?.hideLMSUI, ["suspendAll"]);
+
+  assert.deepEqual(
+    manifest.resources.map((resource) => [resource.identifier, resource.scormType, resource.files.length]),
+    [
+      ["Lectora_RES_1", "sco", 1],
+      ["Lectora_RES_2", "sco", 1],
+      ["Lectora_RES_COMMON", "asset", 2],
+    ]
+  );
+});
@@ -0,0 +1,99 @@
+import { beforeEach, mock, test } from "node:test";
+import assert from "node:assert/strict";
+import { SCORMParser } from "@/lib/scorm-parser";
+import { SCORMFileStore } from "@/lib/scorm-file-store";
+import { SCORMValidator } from "@/lib/scorm-validator";
+import { SCORMManifest } from "@/types/scorm";
+
+function createManifestXml(items: string, collection: string): string {
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<manifest identifier="shared_sequencing" version="1.0"
+  xmlns="http://www.imsglobal.org/xsd/imscp_v1p1"
+  xmlns:adlcp="http://www.adlnet.org/xsd/adlcp_v1p3"
+  xmlns:imsss="http://www.imsglobal.org/xsd/imsss">
+  <metadata>
+    <schema>ADL SCORM</schema>
+    <schemaversion>2004 4th Edition</schemaversion>
+  </metadata>
+  <organizations default="org">
+    <organization identifier="org">
+      <title>Shared sequencing</title>
+      ${items}
+    </organization>
+  </organizations>
+  <resources>
+    <resource identifier="resource" type="webcontent" adlcp:scormType="sco" href="index.html">
+      <file href="index.html"/>
+    </resource>
+  </resources>
+  <imsss:sequencingCollection>${collection}</imsss:sequencingCollection>
+</manifest>`;
+}
+
+const COLLECTION = `
+    <imsss:sequencing ID="forward_only">
+      <imsss:controlMode choice="false" flow="true" forwardOnly="true"/>
+      <imsss:limitConditions attemptLimit="2"/>
+    </imsss:sequencing>`;
+
+function parse(xml: string): Promise<SCORMManifest> {
+  return new SCORMParser().parseManifest(xml);
+}
+
+beforeEach(() => {
+  // The parser logs its progress, and warns about references it cannot resolve
+  mock.method(console, "log", () => {});
+  mock.method(console, "warn", () => {});
+});
+
+test("an IDRef pulls in the shared definition and local elements replace referenced ones", async () => {
+  const manifest = await parse(
+    createManifestXml(
+      `<item identifier="shared" identifierref="resource">
+        <title>Shared</title>
+        <imsss:sequencing IDRef="forward_only"/>
+      </item>
+      <item identifier="overridden" identifierref="resource">
+        <title>Overridden</title>
+        <imsss:sequencing IDRef="forward_only">
+          <imsss:controlMode choice="true" flow="true"/>
+        </imsss:sequencing>
+      </item>`,
+      COLLECTION
+    )
+  );
+  const [shared, overridden] = manifest.organizations[0].items;
+
+  assert.equal(shared.sequencing?.idRef, "forward_only");
+  assert.equal(shared.sequencing?.controlMode?.choice, false);
+  assert.equal(shared.sequencing?.controlMode?.forwardOnly, true);
+  assert.equal(shared.sequencing?.limitConditions?.attemptLimit, 2);
+
+  // The local controlMode replaces the referenced one as a whole, so
+  // forwardOnly is not inherited; other elements still come from the reference
+  assert.equal(overridden.sequencing?.controlMode?.choice, true);
+  assert.notEqual(overridden.sequencing?.controlMode?.forwardOnly, true);
+  assert.equal(overridden.sequencing?.limitConditions?.attemptLimit, 2);
+});
+
+test("the validator reports IDRefs that match no sequencingCollection entry", async () => {
+  const manifest = await parse(
+    createManifestXml(
+      `<item identifier="dangling" identifierref="resource">
+        <title>Dangling</title>
+        <imsss:sequencing IDRef="missing"/>
+      </item>`,
+      COLLECTION
+    )
+  );
+  const files = new SCORMFileStore();
+  files.set("index.html", new TextEncoder().encode("<html></html>"));
+
+  const result = SCORMValidator.validatePackage({ manifest, files, baseUrl: "" });
+
+  assert.equal(result.isValid, false);
+  assert.deepEqual(
+    result.errors.filter((error) => error.includes("IDRef")),
+    ["Sequencing IDRef missing on dangling does not match any sequencing in sequencingCollection"]
+  );
+});
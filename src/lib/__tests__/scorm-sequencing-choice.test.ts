@@ -0,0 +1,118 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { SCORMSequencingEngine } from "@/lib/scorm-sequencing-correct";
+import { SCORMItem, SCORMManifest, SCORMSequencing } from "@/types/scorm";
+
+function lesson(identifier: string, sequencing?: SCORMSequencing): SCORMItem {
+  return { identifier, title: identifier, identifierref: "resource", sequencing };
+}
+
+function createManifest(items: SCORMItem[], sequencing: SCORMSequencing): SCORMManifest {
+  return {
+    identifier: "choice",
+    version: "1.0",
+    title: "Choice",
+    edition: "2004-4th",
+    organizations: [{ identifier: "org", title: "Organization", items, sequencing }],
+    resources: [{ identifier: "resource", type: "webcontent", href: "index.html", scormType: "sco", files: [] }],
+  };
+}
+
+function rejections(engine: SCORMSequencingEngine): string[] {
+  const exceptions: string[] = [];
+  engine.on("navigationRequested", (event) => {
+    if (!event.valid) exceptions.push(event.exception ?? "");
+  });
+  return exceptions;
+}
+
+test("choice delivers a sibling when choice is allowed", () => {
+  const engine = new SCORMSequencingEngine(
+    createManifest([lesson("a"), lesson("b")], { controlMode: { choice: true, flow: true } })
+  );
+  engine.startSequence();
+
+  assert.equal(engine.processNavigationRequest("choice", "b"), "b");
+  assert.deepEqual(engine.getValidChoiceTargets(), ["a", "b"]);
+});
+
+test("forwardOnly rejects choosing a previous sibling without ending the current attempt", () => {
+  const engine = new SCORMSequencingEngine(
+    createManifest([lesson("a"), lesson("b")], { controlMode: { choice: true, flow: true, forwardOnly: true } })
+  );
+  const exceptions = rejections(engine);
+  engine.startSequence();
+  engine.processNavigationRequest("continue");
+
+  assert.equal(engine.processNavigationRequest("choice", "a"), null);
+  assert.equal(exceptions.length, 1);
+  assert.equal(engine.getCurrentActivity(), "b");
+  assert.equal(engine.exportState().activities.b.activityIsActive, true);
+  assert.ok(!engine.getValidChoiceTargets().includes("a"));
+});
+
+test("hiddenFromChoice rejects the target without side effects", () => {
+  const hidden: SCORMSequencing = {
+    sequencingRules: {
+      preConditionRule: [
+        { conditionCombination: "all", action: "hiddenFromChoice", ruleConditions: [{ condition: "always" }] },
+      ],
+    },
+  };
+  const engine = new SCORMSequencingEngine(
+    createManifest([lesson("a"), lesson("b", hidden)], { controlMode: { choice: true, flow: true } })
+  );
+  rejections(engine);
+  engine.startSequence();
+
+  assert.equal(engine.processNavigationRequest("choice", "b"), null);
+  assert.equal(engine.getCurrentActivity(), "a");
+  assert.equal(engine.exportState().activities.a.activityIsActive, true);
+  assert.equal(engine.isActivityHiddenFromChoice("b"), true);
+});
+
+test("preventActivation rejects choosing into a cluster that is not active", () => {
+  const cluster: SCORMItem = {
+    identifier: "module",
+    title: "Module",
+    item: [lesson("m1"), lesson("m2")],
+    sequencing: {
+      controlMode: { choice: true, flow: true },
+      constrainedChoiceConsiderations: { preventActivation: true },
+    },
+  };
+  const engine = new SCORMSequencingEngine(
+    createManifest([lesson("intro"), cluster], { controlMode: { choice: true, flow: true } })
+  );
+  rejections(engine);
+  engine.startSequence();
+
+  assert.equal(engine.processNavigationRequest("choice", "m2"), null);
+  assert.equal(engine.getCurrentActivity(), "intro");
+  assert.equal(engine.exportState().activities.intro.activityIsActive, true);
+
+  // Entering the module by flow activates it, after which its children can be chosen
+  assert.equal(engine.processNavigationRequest("continue"), "m1");
+  assert.equal(engine.processNavigationRequest("choice", "m2"), "m2");
+});
+
+test("constrainChoice limits leaving a cluster to its neighbour", () => {
+  const cluster = (identifier: string, sequencing: SCORMSequencing = {}): SCORMItem => ({
+    identifier,
+    title: identifier,
+    item: [lesson(`${identifier}_a`)],
+    sequencing: { ...sequencing, controlMode: { choice: true, flow: true } },
+  });
+  const engine = new SCORMSequencingEngine(
+    createManifest(
+      [cluster("one", { constrainedChoiceConsiderations: { constrainChoice: true } }), cluster("two"), cluster("three")],
+      { controlMode: { choice: true, flow: true } }
+    )
+  );
+  rejections(engine);
+  engine.startSequence();
+
+  assert.equal(engine.processNavigationRequest("choice", "three_a"), null);
+  assert.equal(engine.getCurrentActivity(), "one_a");
+  assert.equal(engine.processNavigationRequest("choice", "two_a"), "two_a");
+});
@@ -0,0 +1,70 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { SCORMSequencingEngine } from "@/lib/scorm-sequencing-correct";
+import { SCORMManifest } from "@/types/scorm";
+
+function createManifest(): SCORMManifest {
+  return {
+    identifier: "two-items",
+    version: "1.0",
+    title: "Two items",
+    edition: "2004-4th",
+    organizations: [
+      {
+        identifier: "org",
+        title: "Organization",
+        items: [
+          { identifier: "item_1", title: "One", identifierref: "resource" },
+          { identifier: "item_2", title: "Two", identifierref: "resource" },
+        ],
+        sequencing: { controlMode: { choice: true, flow: true } },
+      },
+    ],
+    resources: [{ identifier: "resource", type: "webcontent", href: "index.html", scormType: "sco", files: [] }],
+  };
+}
+
+test("navigation is available while an activity is delivered", () => {
+  const engine = new SCORMSequencingEngine(createManifest());
+  engine.startSequence();
+
+  assert.ok(engine.getAvailableNavigationRequests().includes("continue"));
+  assert.ok(engine.getAvailableNavigationRequests().includes("exitAll"));
+});
+
+test("no navigation or choice targets are available after exitAll ends the session", () => {
+  const engine = new SCORMSequencingEngine(createManifest());
+  engine.startSequence();
+  engine.processNavigationRequest("continue");
+  engine.processNavigationRequest("exitAll");
+
+  assert.equal(engine.isSessionEnded(), true);
+  assert.equal(engine.getCurrentActivity(), undefined);
+  assert.deepEqual(engine.getAvailableNavigationRequests(), []);
+  assert.deepEqual(engine.getValidChoiceTargets(), []);
+});
+
+test("the engine rejects navigation after the session ends", () => {
+  const engine = new SCORMSequencingEngine(createManifest());
+  const rejected: string[] = [];
+  engine.on("navigationRequested", (event) => {
+    if (!event.valid) rejected.push(event.request);
+  });
+  engine.startSequence();
+  engine.processNavigationRequest("exitAll");
+
+  assert.equal(engine.processNavigationRequest("continue"), null);
+  assert.equal(engine.processNavigationRequest("previous"), null);
+  assert.equal(engine.processNavigationRequest("choice", "item_1"), null);
+  assert.deepEqual(rejected, ["continue", "previous", "choice"]);
+  assert.equal(engine.isSessionEnded(), true);
+});
+
+test("start begins a new session after the previous one ended", () => {
+  const engine = new SCORMSequencingEngine(createManifest());
+  engine.startSequence();
+  engine.processNavigationRequest("exitAll");
+
+  assert.equal(engine.startSequence(), "item_1");
+  assert.equal(engine.isSessionEnded(), false);
+});
@@ -0,0 +1,115 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { SCORMSequencingEngine } from "@/lib/scorm-sequencing-correct";
+import { SCORMItem, SCORMManifest, SCORMMapInfo, SCORMSequencing } from "@/types/scorm";
+
+function lesson(identifier: string, sequencing?: SCORMSequencing): SCORMItem {
+  return { identifier, title: identifier, identifierref: "resource", sequencing };
+}
+
+function createManifest(items: SCORMItem[]): SCORMManifest {
+  return {
+    identifier: "objectives",
+    version: "1.0",
+    title: "Objectives",
+    edition: "2004-4th",
+    organizations: [
+      { identifier: "org", title: "Organization", items, sequencing: { controlMode: { choice: true, flow: true } } },
+    ],
+    resources: [{ identifier: "resource", type: "webcontent", href: "index.html", scormType: "sco", files: [] }],
+  };
+}
+
+// Skipped by flow once its primary objective, read from a global objective, is satisfied
+function skippedWhenSatisfied(mapInfo: SCORMMapInfo): SCORMSequencing {
+  return {
+    objectives: { primaryObjective: { objectiveID: "review", mapInfo: [mapInfo] } },
+    sequencingRules: {
+      preConditionRule: [
+        { conditionCombination: "all", action: "skip", ruleConditions: [{ condition: "satisfied" }] },
+      ],
+    },
+  };
+}
+
+test("objectives write their status to the global objectives they map to", () => {
+  const engine = new SCORMSequencingEngine(
+    createManifest([
+      lesson("a", {
+        objectives: {
+          primaryObjective: {
+            objectiveID: "a_primary",
+            mapInfo: [{ targetObjectiveID: "g_primary", writeSatisfiedStatus: true, writeNormalizedMeasure: true }],
+          },
+          objective: [
+            { objectiveID: "a_secondary", mapInfo: [{ targetObjectiveID: "g_secondary", writeSatisfiedStatus: true }] },
+            { objectiveID: "a_local", mapInfo: [{ targetObjectiveID: "g_read_only" }] },
+          ],
+        },
+      }),
+    ])
+  );
+  engine.startSequence();
+  engine.reportRuntimeResults("a", {
+    successStatus: "passed",
+    scoreScaled: 0.8,
+    objectives: [
+      { id: "a_secondary", successStatus: "failed", scoreScaled: 0.2 },
+      { id: "a_local", successStatus: "passed" },
+    ],
+  });
+
+  const globals = engine.getGlobalObjectives();
+  assert.deepEqual(globals.g_primary, {
+    objectiveProgressStatus: true,
+    objectiveSatisfiedStatus: true,
+    objectiveMeasureStatus: true,
+    objectiveNormalizedMeasure: 0.8,
+  });
+  // Only the satisfied status is written for the secondary objective
+  assert.equal(globals.g_secondary.objectiveProgressStatus, true);
+  assert.equal(globals.g_secondary.objectiveSatisfiedStatus, false);
+  assert.equal(globals.g_secondary.objectiveMeasureStatus, false);
+  // Writes are off unless enabled
+  assert.equal(globals.g_read_only, undefined);
+});
+
+test("a global objective written by one course is read by another through mapInfo", () => {
+  const writer = new SCORMSequencingEngine(
+    createManifest([
+      lesson("pretest", {
+        objectives: {
+          primaryObjective: { mapInfo: [{ targetObjectiveID: "shared", writeSatisfiedStatus: true }] },
+        },
+      }),
+    ])
+  );
+  writer.startSequence();
+  writer.reportRuntimeResults("pretest", { successStatus: "passed" });
+
+  const reader = new SCORMSequencingEngine(
+    createManifest([lesson("review", skippedWhenSatisfied({ targetObjectiveID: "shared" })), lesson("next")])
+  );
+  reader.setGlobalObjectives(writer.getGlobalObjectives());
+
+  assert.equal(reader.startSequence(), "next");
+});
+
+test("readSatisfiedStatus false keeps the local status", () => {
+  const engine = new SCORMSequencingEngine(
+    createManifest([
+      lesson("review", skippedWhenSatisfied({ targetObjectiveID: "shared", readSatisfiedStatus: false })),
+      lesson("next"),
+    ])
+  );
+  engine.setGlobalObjectives({
+    shared: {
+      objectiveProgressStatus: true,
+      objectiveSatisfiedStatus: true,
+      objectiveMeasureStatus: false,
+      objectiveNormalizedMeasure: 0,
+    },
+  });
+
+  assert.equal(engine.startSequence(), "review");
+});
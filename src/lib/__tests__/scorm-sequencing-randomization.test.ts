@@ -0,0 +1,88 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { SCORMSequencingEngine } from "@/lib/scorm-sequencing-correct";
+import { SCORMItem, SCORMManifest } from "@/types/scorm";
+
+// A cluster that picks 3 of its 6 lessons once per course attempt and shuffles them
+function createManifest(): SCORMManifest {
+  const lessons: SCORMItem[] = ["a", "b", "c", "d", "e", "f"].map((id) => ({
+    identifier: `lesson_${id}`,
+    title: `Lesson ${id}`,
+    identifierref: "resource",
+  }));
+
+  return {
+    identifier: "randomized",
+    version: "1.0",
+    title: "Randomized course",
+    edition: "2004-4th",
+    organizations: [
+      {
+        identifier: "org",
+        title: "Organization",
+        items: [
+          {
+            identifier: "module",
+            title: "Module",
+            item: lessons,
+            sequencing: {
+              controlMode: { choice: true, flow: true },
+              randomizationControls: {
+                selectCount: 3,
+                selectionTiming: "once",
+                reorderChildren: true,
+                randomizationTiming: "once",
+              },
+            },
+          },
+        ],
+        sequencing: { controlMode: { choice: true, flow: true } },
+      },
+    ],
+    resources: [{ identifier: "resource", type: "webcontent", href: "index.html", scormType: "sco", files: [] }],
+  };
+}
+
+function createEngine(seed: number): SCORMSequencingEngine {
+  return new SCORMSequencingEngine(createManifest(), { seed });
+}
+
+test("selects the number of children given by selectCount", () => {
+  const order = createEngine(1).getChildOrder();
+
+  assert.equal(order.module.length, 3);
+  assert.equal(new Set(order.module).size, 3);
+});
+
+test("the same seed selects and orders children the same way", () => {
+  for (const seed of [1, 7, 42, 2024]) {
+    assert.deepEqual(createEngine(seed).getChildOrder(), createEngine(seed).getChildOrder());
+  }
+});
+
+test("different seeds produce different orders", () => {
+  const orders = new Set(
+    [1, 2, 3, 4, 5, 6, 7, 8].map((seed) => createEngine(seed).getChildOrder().module.join(","))
+  );
+
+  assert.ok(orders.size > 1);
+});
+
+test("a saved child order round-trips into another engine", () => {
+  const saved = createEngine(1).getChildOrder();
+  const restored = createEngine(99);
+  restored.setChildOrder(saved);
+
+  assert.deepEqual(restored.getChildOrder(), saved);
+  for (const id of ["lesson_a", "lesson_b", "lesson_c", "lesson_d", "lesson_e", "lesson_f"]) {
+    assert.equal(restored.isActivityAvailable(id), saved.module.includes(id));
+  }
+});
+
+test("the first delivered lesson follows the restored order", () => {
+  const saved = createEngine(3).getChildOrder();
+  const restored = createEngine(4);
+  restored.setChildOrder(saved);
+
+  assert.equal(restored.startSequence(), saved.module[0]);
+});
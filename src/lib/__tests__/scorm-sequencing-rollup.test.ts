@@ -0,0 +1,96 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { SCORMSequencingEngine } from "@/lib/scorm-sequencing-correct";
+import { SCORMItem, SCORMManifest, SCORMSequencing } from "@/types/scorm";
+
+function lesson(identifier: string, sequencing?: SCORMSequencing): SCORMItem {
+  return { identifier, title: identifier, identifierref: "resource", sequencing };
+}
+
+function createManifest(items: SCORMItem[]): SCORMManifest {
+  return {
+    identifier: "rollup",
+    version: "1.0",
+    title: "Rollup",
+    edition: "2004-4th",
+    organizations: [
+      { identifier: "org", title: "Organization", items, sequencing: { controlMode: { choice: true, flow: true } } },
+    ],
+    resources: [{ identifier: "resource", type: "webcontent", href: "index.html", scormType: "sco", files: [] }],
+  };
+}
+
+// Deliver each activity in turn and report it passed and completed, then end the session
+function passInOrder(engine: SCORMSequencingEngine, activityIds: string[]): void {
+  engine.startSequence();
+  activityIds.forEach((activityId, index) => {
+    if (index > 0) {
+      engine.processNavigationRequest("choice", activityId);
+    }
+    engine.reportRuntimeResults(activityId, { completionStatus: "completed", successStatus: "passed" });
+  });
+  engine.processNavigationRequest("exitAll");
+}
+
+function getRootStatus(engine: SCORMSequencingEngine) {
+  const root = engine.exportState().activities.org;
+  return {
+    satisfied: root.objectives._primary_?.objectiveProgressStatus ? root.objectives._primary_.objectiveSatisfiedStatus : undefined,
+    completed: root.activityProgressStatus ? root.activityCompletionStatus : undefined,
+    measure: root.objectives._primary_?.objectiveMeasureStatus ? root.objectives._primary_.objectiveNormalizedMeasure : undefined,
+  };
+}
+
+test("a child that was never attempted holds back rollup by default", () => {
+  const engine = new SCORMSequencingEngine(createManifest([lesson("a"), lesson("b"), lesson("c")]));
+  passInOrder(engine, ["a", "b"]);
+
+  const status = getRootStatus(engine);
+  assert.notEqual(status.satisfied, true);
+  assert.notEqual(status.completed, true);
+});
+
+test("rollupConsiderations ifAttempted leaves unattempted children out of rollup", () => {
+  const optional: SCORMSequencing = {
+    rollupConsiderations: {
+      requiredForSatisfied: "ifAttempted",
+      requiredForNotSatisfied: "ifAttempted",
+      requiredForCompleted: "ifAttempted",
+      requiredForIncomplete: "ifAttempted",
+    },
+  };
+  const engine = new SCORMSequencingEngine(createManifest([lesson("a"), lesson("b"), lesson("c", optional)]));
+  passInOrder(engine, ["a", "b"]);
+
+  const status = getRootStatus(engine);
+  assert.equal(status.satisfied, true);
+  assert.equal(status.completed, true);
+});
+
+test("rollupObjectiveSatisfied and rollupProgressCompletion exclude a child from status rollup", () => {
+  const excluded: SCORMSequencing = {
+    rollupRules: { rollupObjectiveSatisfied: false, rollupProgressCompletion: false },
+  };
+  const engine = new SCORMSequencingEngine(createManifest([lesson("a"), lesson("b", excluded)]));
+  passInOrder(engine, ["a"]);
+
+  const status = getRootStatus(engine);
+  assert.equal(status.satisfied, true);
+  assert.equal(status.completed, true);
+});
+
+test("measure rollup is the weighted average of the children's measures", () => {
+  const engine = new SCORMSequencingEngine(
+    createManifest([
+      lesson("a", { rollupRules: { objectiveMeasureWeight: 3 } }),
+      lesson("b"),
+    ])
+  );
+  engine.startSequence();
+  engine.reportRuntimeResults("a", { scoreScaled: 1 });
+  engine.processNavigationRequest("continue");
+  engine.reportRuntimeResults("b", { scoreScaled: 0 });
+  engine.processNavigationRequest("exitAll");
+
+  assert.equal(getRootStatus(engine).measure, 0.75);
+});
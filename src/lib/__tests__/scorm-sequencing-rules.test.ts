@@ -0,0 +1,65 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { SCORMSequencingEngine } from "@/lib/scorm-sequencing-correct";
+import { SCORMItem, SCORMManifest, SCORMSequencing } from "@/types/scorm";
+
+function lesson(identifier: string, sequencing?: SCORMSequencing): SCORMItem {
+  return { identifier, title: identifier, identifierref: "resource", sequencing };
+}
+
+function createManifest(items: SCORMItem[]): SCORMManifest {
+  return {
+    identifier: "rules",
+    version: "1.0",
+    title: "Rules",
+    edition: "2004-4th",
+    organizations: [
+      { identifier: "org", title: "Organization", items, sequencing: { controlMode: { choice: true, flow: true } } },
+    ],
+    resources: [{ identifier: "resource", type: "webcontent", href: "index.html", scormType: "sco", files: [] }],
+  };
+}
+
+test("the attempted condition holds once an attempt has begun, without reported progress", () => {
+  const disabledOnceAttempted: SCORMSequencing = {
+    sequencingRules: {
+      preConditionRule: [
+        { conditionCombination: "all", action: "disabled", ruleConditions: [{ condition: "attempted" }] },
+      ],
+    },
+  };
+  const engine = new SCORMSequencingEngine(createManifest([lesson("a", disabledOnceAttempted), lesson("b")]));
+  engine.startSequence();
+  assert.equal(engine.getCurrentActivity(), "a");
+
+  assert.equal(engine.processNavigationRequest("continue"), "b");
+  assert.equal(engine.processNavigationRequest("previous"), null);
+  assert.equal(engine.getCurrentActivity(), "b");
+});
+
+test("an activity whose attemptLimit is reached cannot be delivered again", () => {
+  const engine = new SCORMSequencingEngine(
+    createManifest([lesson("a", { limitConditions: { attemptLimit: 1 } }), lesson("b")])
+  );
+  engine.startSequence();
+  engine.processNavigationRequest("continue");
+
+  assert.equal(engine.processNavigationRequest("previous"), null);
+  assert.equal(engine.processNavigationRequest("choice", "a"), null);
+  assert.ok(!engine.getValidChoiceTargets().includes("a"));
+  assert.equal(engine.getCurrentActivity(), "b");
+  assert.equal(engine.exportState().activities.a.activityAttemptCount, 1);
+});
+
+test("attemptLimit allows attempts up to the limit", () => {
+  const engine = new SCORMSequencingEngine(
+    createManifest([lesson("a", { limitConditions: { attemptLimit: 2 } }), lesson("b")])
+  );
+  engine.startSequence();
+  engine.processNavigationRequest("continue");
+
+  assert.equal(engine.processNavigationRequest("previous"), "a");
+  assert.equal(engine.exportState().activities.a.activityAttemptCount, 2);
+  assert.equal(engine.processNavigationRequest("continue"), "b");
+  assert.equal(engine.processNavigationRequest("previous"), null);
+});
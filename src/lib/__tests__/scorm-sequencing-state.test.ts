@@ -0,0 +1,68 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { SCORMSequencingEngine, SequencingStateSnapshot } from "@/lib/scorm-sequencing-correct";
+import { SCORMManifest } from "@/types/scorm";
+
+function createManifest(): SCORMManifest {
+  return {
+    identifier: "state",
+    version: "1.0",
+    title: "State",
+    edition: "2004-4th",
+    organizations: [
+      {
+        identifier: "org",
+        title: "Organization",
+        items: [
+          { identifier: "item_1", title: "One", identifierref: "resource" },
+          { identifier: "item_2", title: "Two", identifierref: "resource" },
+        ],
+        sequencing: { controlMode: { choice: true, flow: true } },
+      },
+    ],
+    resources: [{ identifier: "resource", type: "webcontent", href: "index.html", scormType: "sco", files: [] }],
+  };
+}
+
+// Snapshots are stored as JSON between launches
+function relaunch(snapshot: SequencingStateSnapshot): { engine: SCORMSequencingEngine; imported: boolean } {
+  const engine = new SCORMSequencingEngine(createManifest());
+  const imported = engine.importState(JSON.parse(JSON.stringify(snapshot)));
+  return { engine, imported };
+}
+
+test("suspendAll keeps the course attempt for resumeAll on the next launch", () => {
+  const engine = new SCORMSequencingEngine(createManifest());
+  engine.startSequence();
+  engine.processNavigationRequest("continue");
+  engine.processNavigationRequest("suspendAll");
+  assert.equal(engine.getSuspendedActivity(), "item_2");
+
+  const { engine: resumed, imported } = relaunch(engine.exportState());
+  assert.equal(imported, true);
+  assert.equal(resumed.getSuspendedActivity(), "item_2");
+  assert.equal(resumed.processNavigationRequest("resumeAll"), "item_2");
+
+  // Resuming continues the suspended attempts instead of beginning new ones
+  const { activities } = resumed.exportState();
+  assert.equal(activities.item_1.activityAttemptCount, 1);
+  assert.equal(activities.item_2.activityAttemptCount, 1);
+  assert.equal(activities.org.activityAttemptCount, 1);
+});
+
+test("a course attempt ended by exitAll is not restored, so the next launch begins a new one", () => {
+  const engine = new SCORMSequencingEngine(createManifest());
+  engine.startSequence();
+  engine.processNavigationRequest("continue");
+  engine.processNavigationRequest("exitAll");
+
+  const { engine: relaunched, imported } = relaunch(engine.exportState());
+  assert.equal(imported, false);
+  assert.equal(relaunched.getSuspendedActivity(), undefined);
+  assert.equal(relaunched.startSequence(), "item_1");
+
+  const { activities } = relaunched.exportState();
+  assert.equal(activities.org.activityAttemptCount, 1);
+  assert.equal(activities.item_1.activityAttemptCount, 1);
+  assert.equal(activities.item_2.activityAttemptCount, 0);
+});
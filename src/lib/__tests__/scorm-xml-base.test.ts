@@ -0,0 +1,87 @@
+import { beforeEach, mock, test } from "node:test";
+import assert from "node:assert/strict";
+import { SCORMParser } from "@/lib/scorm-parser";
+import { SCORMFileStore } from "@/lib/scorm-file-store";
+import { SCORMValidator } from "@/lib/scorm-validator";
+import { resolveXmlBase } from "@/lib/scorm-xml-base";
+import { SCORMPackage } from "@/types/scorm";
+
+function createManifestXml(manifestBase: string, resourcesBase: string, resourceBase: string): string {
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<manifest identifier="xml_base" version="1.0" xml:base="${manifestBase}"
+  xmlns="http://www.imsglobal.org/xsd/imscp_v1p1"
+  xmlns:adlcp="http://www.adlnet.org/xsd/adlcp_v1p3">
+  <metadata>
+    <schema>ADL SCORM</schema>
+    <schemaversion>2004 4th Edition</schemaversion>
+  </metadata>
+  <organizations default="org">
+    <organization identifier="org">
+      <title>xml:base</title>
+      <item identifier="item" identifierref="resource" parameters="?page=2">
+        <title>Lesson</title>
+      </item>
+    </organization>
+  </organizations>
+  <resources xml:base="${resourcesBase}">
+    <resource identifier="resource" type="webcontent" adlcp:scormType="sco" xml:base="${resourceBase}" href="index.html">
+      <file href="index.html"/>
+      <file href="../shared/style.css"/>
+    </resource>
+  </resources>
+</manifest>`;
+}
+
+async function loadPackage(xml: string, paths: string[]): Promise<SCORMPackage> {
+  const files = new SCORMFileStore();
+  for (const path of paths) {
+    files.set(path, new TextEncoder().encode("content"));
+  }
+  return { manifest: await new SCORMParser().parseManifest(xml), files, baseUrl: "", packageId: "pkg" };
+}
+
+beforeEach(() => {
+  // The parser logs its progress
+  mock.method(console, "log", () => {});
+});
+
+test("resolveXmlBase treats bases as directories and normalizes the result", () => {
+  assert.equal(resolveXmlBase("course", "content/"), "course/content/");
+  assert.equal(resolveXmlBase("course/content/", "../shared/style.css"), "course/shared/style.css");
+  assert.equal(resolveXmlBase("course", "/index.html"), "index.html");
+  assert.equal(resolveXmlBase("course", "index.html?page=2#top"), "course/index.html?page=2#top");
+  assert.equal(resolveXmlBase("https://cdn.example.com/course", "index.html"), "https://cdn.example.com/course/index.html");
+  assert.equal(resolveXmlBase("course", "https://cdn.example.com/index.html"), "https://cdn.example.com/index.html");
+  assert.equal(resolveXmlBase(undefined, undefined), "");
+});
+
+test("xml:base on manifest, resources and resource chain into launch URLs", async () => {
+  const packageData = await loadPackage(createManifestXml("course/", "content", "module1/"), [
+    "imsmanifest.xml",
+    "course/content/module1/index.html",
+    "course/content/shared/style.css",
+  ]);
+  const parser = new SCORMParser();
+  const [resource] = packageData.manifest.resources;
+  const item = packageData.manifest.organizations[0].items[0];
+
+  assert.equal(resource.base, "course/content/module1/");
+  assert.equal(parser.getItemLaunchUrl(packageData, item), "/scorm-vfs/pkg/course/content/module1/index.html?page=2");
+
+  // File hrefs resolve against the same chain, so the validator finds them
+  const result = SCORMValidator.validatePackage(packageData);
+  assert.deepEqual(result.errors, []);
+});
+
+test("an absolute xml:base points the launch URL outside the package", async () => {
+  const packageData = await loadPackage(
+    createManifestXml("course/", "https://cdn.example.com/courses/", "module1/"),
+    ["imsmanifest.xml"]
+  );
+  const item = packageData.manifest.organizations[0].items[0];
+
+  assert.equal(
+    new SCORMParser().getItemLaunchUrl(packageData, item),
+    "https://cdn.example.com/courses/module1/index.html?page=2"
+  );
+});
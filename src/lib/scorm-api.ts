@@ -4,441 +4,968 @@
 import {
   SCORMAPI,
   SCORMDataModel,
-  SCORMError,
   SCORMVersion,
+  SCORMEdition,
 } from "@/types/scorm";
+import {
+  CMIElementDefinition,
+  CMIValueCheck,
+  getChildrenKeyword,
+  getDataModelDefinitions,
+  getElementDefinition,
+  isArrayContainer,
+  normalizeElement,
+  validateCMIValue,
+} from "@/lib/scorm-data-model";
+import {
+  SCORMAttemptData,
+  SCORMAttemptKey,
+  SCORMAttemptStatus,
+  SCORMPersistenceAdapter,
+} from "@/lib/scorm-persistence";
+import { formatSCORMDuration, parseSCORMDuration } from "@/lib/scorm-time";
+
+// Runtime state machine shared by both versions:
+// Not Initialized -> Running -> Terminated
+export type SCORMAPIState = "notInitialized" | "running" | "terminated";
+
+export interface SCORMSessionTimes {
+  sessionTime: string; // CMITimespan (1.2) or ISO 8601 duration (2004)
+  totalTime: string;
+  sessionTimeMs: number;
+  totalTimeMs: number;
+  reportedByContent: boolean; // false when wall-clock time was used
+}
+
+export interface SCORMAPIOptions {
+  persistence?: SCORMPersistenceAdapter;
+  attemptKey?: SCORMAttemptKey; // Required for persistence
+  onSessionTime?: (times: SCORMSessionTimes) => void; // Called on Terminate/LMSFinish
+  onTerminate?: () => void; // Called after a successful Terminate/LMSFinish
+}
+
+type CMIKeyword = "_children" | "_count" | "_version";
 
-export class SCORMAPIImplementation implements SCORMAPI {
-  private dataModel: SCORMDataModel = {};
-  private initialized = false;
-  private version: SCORMVersion;
-  private errorCode = "0";
+// One entry of an indexed collection (objectives, interactions, comments).
+// Nested collections such as an interaction's objectives live on the item.
+interface CMIArrayItem {
+  values: Record<string, string>;
+  collections: Record<string, CMIArrayItem[]>;
+}
 
-  constructor(version: SCORMVersion = "1.2") {
+interface CMIArrayLocation {
+  container: string; // e.g. cmi.interactions.0.objectives
+  index: number;
+  field: string; // e.g. id or score.raw
+}
+
+type CMIStoreResult =
+  | "stored"
+  | "outOfOrder"
+  | "dependencyNotEstablished"
+  | "duplicateIdentifier";
+
+export const SCORM12_ERROR_STRINGS: Record<string, string> = {
+  "0": "No Error",
+  "101": "General Exception",
+  "201": "Invalid argument error",
+  "202": "Element cannot have children",
+  "203": "Element not an array - cannot have count",
+  "301": "Not initialized",
+  "401": "Not implemented error",
+  "402": "Invalid set value, element is a keyword",
+  "403": "Element is read only",
+  "404": "Element is write only",
+  "405": "Incorrect Data Type",
+};
+
+export const SCORM2004_ERROR_STRINGS: Record<string, string> = {
+  "0": "No Error",
+  "101": "General Exception",
+  "102": "General Initialization Failure",
+  "103": "Already Initialized",
+  "104": "Content Instance Terminated",
+  "111": "General Termination Failure",
+  "112": "Termination Before Initialization",
+  "113": "Termination After Termination",
+  "122": "Retrieve Data Before Initialization",
+  "123": "Retrieve Data After Termination",
+  "132": "Store Data Before Initialization",
+  "133": "Store Data After Termination",
+  "142": "Commit Before Initialization",
+  "143": "Commit After Termination",
+  "201": "General Argument Error",
+  "301": "General Get Failure",
+  "351": "General Set Failure",
+  "391": "General Commit Failure",
+  "401": "Undefined Data Model Element",
+  "402": "Unimplemented Data Model Element",
+  "403": "Data Model Element Value Not Initialized",
+  "404": "Data Model Element Is Read Only",
+  "405": "Data Model Element Is Write Only",
+  "406": "Data Model Element Type Mismatch",
+  "407": "Data Model Element Value Out Of Range",
+  "408": "Data Model Dependency Not Established",
+};
+
+/**
+ * Behaviour shared by the SCORM 1.2 and SCORM 2004 runtimes.
+ * The lowercase methods (initialize, getValue, ...) are version-neutral entry
+ * points used by the host and the cross-origin bridge; each subclass exposes
+ * them under the method names its standard defines and applies its own state
+ * machine and error codes.
+ */
+export abstract class SCORMAPIImplementation {
+  // Values of elements outside arrays, keyed by their validated names
+  protected dataModel: Record<string, string | undefined> = {};
+  protected collections: Record<string, CMIArrayItem[]> = {};
+  protected state: SCORMAPIState = "notInitialized";
+  protected version: SCORMVersion;
+  protected edition: SCORMEdition;
+  protected lastError = "0";
+  protected lastDiagnostic = "";
+  protected options: SCORMAPIOptions;
+  protected sessionStartedAt: number | null = null;
+  private pendingSave: Promise<void> = Promise.resolve();
+  private persistenceError: string | null = null;
+
+  protected abstract readonly errorStrings: Record<string, string>;
+
+  constructor(version: SCORMVersion, edition: SCORMEdition, options: SCORMAPIOptions = {}) {
     this.version = version;
+    this.edition = edition;
+    this.options = options;
+  }
+
+  abstract initialize(param: string): string;
+  abstract terminate(param: string): string;
+  abstract getValue(element: string): string;
+  abstract setValue(element: string, value: string): string;
+  abstract commit(param: string): string;
+
+  getLastError(): string {
+    return this.lastError;
+  }
+
+  getErrorString(errorCode: string): string {
+    return this.errorStrings[errorCode] || "";
+  }
+
+  /**
+   * Diagnostic text for an error code. For the most recent error (or an empty
+   * argument) this explains what actually went wrong in the last call.
+   */
+  getDiagnostic(errorCode: string): string {
+    if (errorCode === "" || errorCode === this.lastError) {
+      return this.lastDiagnostic || this.getErrorString(this.lastError);
+    }
+    return this.getErrorString(errorCode);
+  }
+
+  // Helper methods
+  protected setError(code: string, diagnostic: string): void {
+    this.lastError = code;
+    this.lastDiagnostic = diagnostic;
+    console.error(`SCORM Error ${code}: ${diagnostic}`);
+  }
+
+  protected clearError(): void {
+    this.lastError = "0";
+    this.lastDiagnostic = "";
+  }
+
+  protected getDefinition(element: string): CMIElementDefinition | undefined {
+    return getElementDefinition(this.version, element, this.edition);
+  }
+
+  protected isValidElement(element: string): boolean {
+    return this.getDefinition(element) !== undefined;
+  }
+
+  protected isValidValue(element: string, value: string): CMIValueCheck {
+    const definition = this.getDefinition(element);
+    return definition ? validateCMIValue(definition, value, this.edition) : "typeMismatch";
+  }
+
+  /**
+   * Split a keyword request such as cmi.objectives._count into its container
+   * and keyword
+   * @returns null if the element does not end in a keyword
+   */
+  protected parseKeyword(
+    element: string
+  ): { container: string; keyword: CMIKeyword } | null {
+    const match = /^(.*)\.(_children|_count|_version)$/.exec(element);
+    if (!match) return null;
+    return { container: match[1], keyword: match[2] as CMIKeyword };
+  }
+
+  /**
+   * Answer a _children, _count or _version keyword
+   * @returns The keyword value, or null if the container does not support it
+   */
+  protected getKeywordValue(container: string, keyword: CMIKeyword): string | null {
+    const normalized = normalizeElement(container);
+
+    switch (keyword) {
+      case "_version":
+        return this.version === "2004" && normalized === "cmi" ? "1.0" : null;
+      case "_children":
+        return getChildrenKeyword(this.version, normalized);
+      case "_count":
+        return isArrayContainer(this.version, normalized)
+          ? String(this.countArrayItems(container))
+          : null;
+    }
+  }
+
+  /**
+   * Whether a name is a data model element or a container of elements, used
+   * to tell an unsupported keyword apart from an undefined element
+   */
+  protected isKnownContainer(container: string): boolean {
+    const normalized = normalizeElement(container);
+    return Object.keys(getDataModelDefinitions(this.version)).some(
+      (key) => key === normalized || key.startsWith(`${normalized}.`)
+    );
+  }
+
+  protected countArrayItems(container: string): number {
+    return this.findArray(container)?.length ?? 0;
+  }
+
+  /**
+   * Split an indexed element at its last array index, e.g.
+   * cmi.interactions.0.objectives.1.id -> cmi.interactions.0.objectives, 1, id
+   * @returns null if the element is not inside an array
+   */
+  protected locateArrayElement(element: string): CMIArrayLocation | null {
+    const segments = element.split(".");
+    for (let i = segments.length - 1; i > 0; i--) {
+      if (/^\d+$/.test(segments[i])) {
+        return {
+          container: segments.slice(0, i).join("."),
+          index: parseInt(segments[i], 10),
+          field: segments.slice(i + 1).join("."),
+        };
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Walk to the array a container path refers to. Nested containers such as
+   * cmi.interactions.0.objectives live inside the item that owns them.
+   * @param create - Create the array, and any missing parent items, on the way
+   * @returns The array, or null if a parent item does not exist
+   */
+  protected findArray(container: string, create = false): CMIArrayItem[] | null {
+    let owner = this.collections;
+    let name: string[] = [];
+
+    for (const segment of container.split(".")) {
+      if (!/^\d+$/.test(segment)) {
+        name.push(segment);
+        continue;
+      }
+
+      const key = name.join(".");
+      const index = parseInt(segment, 10);
+      if (create) {
+        owner[key] ??= [];
+        while (owner[key].length <= index) {
+          owner[key].push({ values: {}, collections: {} });
+        }
+      }
+
+      const item = owner[key]?.[index];
+      if (!item) return null;
+      owner = item.collections;
+      name = [];
+    }
+
+    const key = name.join(".");
+    if (create) {
+      owner[key] ??= [];
+    }
+    return owner[key] ?? [];
+  }
+
+  /**
+   * Whether the array item an element belongs to exists. Elements outside
+   * arrays always exist.
+   */
+  protected arrayItemExists(element: string): boolean {
+    const location = this.locateArrayElement(element);
+    if (!location) return true;
+    return this.findArray(location.container)?.[location.index] !== undefined;
+  }
+
+  /**
+   * Stored value of an element, falling back to the default from its definition
+   */
+  protected getStoredValue(
+    element: string,
+    definition: CMIElementDefinition
+  ): string | undefined {
+    const location = this.locateArrayElement(element);
+    const value = location
+      ? this.findArray(location.container)?.[location.index]?.values[location.field]
+      : this.dataModel[element];
+    return value ?? definition.defaultValue;
+  }
+
+  /**
+   * Store a validated value. Array items must be created in order: a new item
+   * can only be added at index _count. SCORM 2004 additionally requires an
+   * objective's or interaction's id before any other field, an interaction's
+   * type before its correct responses, and objective identifiers to be unique.
+   */
+  protected storeValue(element: string, value: string): CMIStoreResult {
+    const location = this.locateArrayElement(element);
+    if (!location) {
+      this.dataModel[element] = value;
+      return "stored";
+    }
+
+    const { container, index, field } = location;
+    const items = this.findArray(container);
+    if (!items || index > items.length) {
+      return "outOfOrder";
+    }
+
+    const item = items[index];
+    if (this.version === "2004") {
+      if (field === "id") {
+        // Objective identifiers must be unique, interactions may repeat an id
+        const duplicate = container.endsWith("objectives") && items.some(
+          (other, otherIndex) => otherIndex !== index && other.values.id === value
+        );
+        if (duplicate) return "duplicateIdentifier";
+      } else if (
+        item?.values.id === undefined &&
+        (container === "cmi.objectives" || container === "cmi.interactions")
+      ) {
+        return "dependencyNotEstablished";
+      }
+
+      if (container.endsWith(".correct_responses")) {
+        const interaction = this.locateArrayElement(container);
+        const type = interaction
+          ? this.findArray(interaction.container)?.[interaction.index]?.values.type
+          : undefined;
+        if (type === undefined) return "dependencyNotEstablished";
+      }
+    }
+
+    if (!item) {
+      this.findArray(container, true)!.push({ values: { [field]: value }, collections: {} });
+    } else {
+      item.values[field] = value;
+    }
+    return "stored";
+  }
+
+  private flattenCollections(
+    collections: Record<string, CMIArrayItem[]>,
+    prefix: string,
+    data: Record<string, string | undefined>
+  ): void {
+    for (const [name, items] of Object.entries(collections)) {
+      items.forEach((item, index) => {
+        const itemPrefix = `${prefix}${name}.${index}`;
+        for (const [field, value] of Object.entries(item.values)) {
+          data[`${itemPrefix}.${field}`] = value;
+        }
+        this.flattenCollections(item.collections, `${itemPrefix}.`, data);
+      });
+    }
+  }
+
+  // Public methods for external access
+
+  /**
+   * Snapshot of the data model with array items flattened to indexed element
+   * names (cmi.objectives.0.id, ...)
+   */
+  public getDataModel(): SCORMDataModel {
+    const data = { ...this.dataModel };
+    this.flattenCollections(this.collections, "", data);
+    return data as SCORMDataModel;
+  }
+
+  /**
+   * Seed or restore data model values without access or ordering checks.
+   * Indexed element names are rebuilt into their arrays.
+   */
+  public setDataModel(data: Partial<SCORMDataModel>): void {
+    for (const [element, value] of Object.entries(data)) {
+      if (value === undefined) continue;
+
+      const location = this.locateArrayElement(element);
+      if (!location) {
+        this.dataModel[element] = value;
+        continue;
+      }
+
+      const items = this.findArray(location.container, true)!;
+      while (items.length <= location.index) {
+        items.push({ values: {}, collections: {} });
+      }
+      items[location.index].values[location.field] = value;
+    }
+  }
+
+  /**
+   * Load the learner's stored attempt. An attempt the learner suspended is
+   * restored into the data model with entry set to "resume"; otherwise a new
+   * attempt starts with entry "ab-initio". SCORM API calls are synchronous, so
+   * the host must await this before content can call Initialize.
+   * @returns The resumed attempt, or null when a new attempt starts
+   */
+  public async loadAttempt(): Promise<SCORMAttemptData | null> {
+    const entryElement = this.version === "1.2" ? "cmi.core.entry" : "cmi.entry";
+    const exitElement = this.version === "1.2" ? "cmi.core.exit" : "cmi.exit";
+    const sessionTimeElement =
+      this.version === "1.2" ? "cmi.core.session_time" : "cmi.session_time";
+
+    const { persistence, attemptKey } = this.options;
+    const attempt =
+      persistence && attemptKey ? await persistence.loadAttempt(attemptKey) : null;
+
+    if (!attempt || attempt.dataModel[exitElement] !== "suspend") {
+      if (attempt) {
+        console.log("[SCORM API] Previous attempt was not suspended, starting a new attempt");
+      }
+      this.dataModel[entryElement] = "ab-initio";
+      return null;
+    }
+
+    // Exit, session time and navigation requests describe the previous session only
+    const restored = { ...attempt.dataModel };
+    delete restored[exitElement];
+    delete restored[sessionTimeElement];
+    delete restored["adl.nav.request"];
+
+    this.setDataModel(restored);
+    this.dataModel[entryElement] = "resume";
+    console.log(`[SCORM API] Resumed suspended attempt for ${attemptKey!.learnerId}`);
+    return attempt;
+  }
+
+  /**
+   * Add this session's time to the stored total. The session time reported by
+   * the content is used when present, otherwise the wall-clock time since
+   * Initialize.
+   */
+  protected accumulateSessionTime(): void {
+    const sessionTimeElement =
+      this.version === "1.2" ? "cmi.core.session_time" : "cmi.session_time";
+    const totalTimeElement =
+      this.version === "1.2" ? "cmi.core.total_time" : "cmi.total_time";
+
+    const reported = this.dataModel[sessionTimeElement];
+    const reportedTime =
+      reported !== undefined ? parseSCORMDuration(reported, this.version) : null;
+    const sessionTime =
+      reportedTime ?? (this.sessionStartedAt ? Date.now() - this.sessionStartedAt : 0);
+
+    const storedTotal = this.dataModel[totalTimeElement];
+    const totalTime =
+      (storedTotal ? parseSCORMDuration(storedTotal, this.version) ?? 0 : 0) + sessionTime;
+
+    this.dataModel[totalTimeElement] = formatSCORMDuration(totalTime, this.version);
+
+    this.options.onSessionTime?.({
+      sessionTime: formatSCORMDuration(sessionTime, this.version),
+      totalTime: this.dataModel[totalTimeElement]!,
+      sessionTimeMs: sessionTime,
+      totalTimeMs: totalTime,
+      reportedByContent: reportedTime !== null,
+    });
+  }
+
+  /**
+   * Wait until every queued save has been handed to the adapter
+   */
+  public flush(): Promise<void> {
+    return this.pendingSave;
+  }
+
+  /**
+   * Queue a save of the current data model. Saves run one at a time so an
+   * older snapshot can never overwrite a newer one.
+   */
+  protected persist(status: SCORMAttemptStatus): void {
+    const { persistence, attemptKey } = this.options;
+    if (!persistence || !attemptKey) return;
+
+    const data: SCORMAttemptData = {
+      version: this.version,
+      status,
+      dataModel: this.getDataModel(),
+      updatedAt: new Date().toISOString(),
+    };
+
+    this.pendingSave = this.pendingSave
+      .then(() =>
+        status === "finished"
+          ? persistence.finishAttempt(attemptKey, data)
+          : persistence.saveAttempt(attemptKey, data)
+      )
+      .catch((error) => {
+        this.persistenceError = error instanceof Error ? error.message : String(error);
+        console.error("[SCORM API] Failed to save attempt data:", error);
+      });
+  }
+
+  /**
+   * Report (once) a save that failed since the last commit. Saves are
+   * asynchronous, so a failure surfaces on the following Commit call.
+   */
+  protected takePersistenceError(): string | null {
+    const error = this.persistenceError;
+    this.persistenceError = null;
+    return error;
+  }
+
+  public isInitialized(): boolean {
+    return this.state === "running";
+  }
+
+  public getState(): SCORMAPIState {
+    return this.state;
+  }
+
+  public getVersion(): SCORMVersion {
+    return this.version;
+  }
+
+  public getEdition(): SCORMEdition {
+    return this.edition;
+  }
+}
+
+export class SCORM12APIImplementation
+  extends SCORMAPIImplementation
+  implements SCORMAPI
+{
+  protected readonly errorStrings = SCORM12_ERROR_STRINGS;
+
+  constructor(options: SCORMAPIOptions = {}) {
+    super("1.2", "1.2", options);
   }
 
-  // SCORM 1.2 API Methods
   LMSInitialize(param: string): string {
-    if (this.initialized) {
-      this.setError("101", "Already initialized");
+    return this.initialize(param);
+  }
+
+  LMSFinish(param: string): string {
+    return this.terminate(param);
+  }
+
+  LMSGetValue(element: string): string {
+    return this.getValue(element);
+  }
+
+  LMSSetValue(element: string, value: string): string {
+    return this.setValue(element, value);
+  }
+
+  LMSCommit(param: string): string {
+    return this.commit(param);
+  }
+
+  LMSGetLastError(): string {
+    return this.getLastError();
+  }
+
+  LMSGetErrorString(errorCode: string): string {
+    return this.getErrorString(errorCode);
+  }
+
+  LMSGetDiagnostic(errorCode: string): string {
+    return this.getDiagnostic(errorCode);
+  }
+
+  initialize(param: string): string {
+    if (param !== "") {
+      this.setError("201", "LMSInitialize must be called with an empty string");
+      return "false";
+    }
+    if (this.state === "running") {
+      this.setError("101", "LMSInitialize has already been called");
+      return "false";
+    }
+    if (this.state === "terminated") {
+      this.setError("101", "LMSInitialize cannot be called after LMSFinish");
       return "false";
     }
 
-    this.initialized = true;
-    this.errorCode = "0";
+    this.state = "running";
+    this.sessionStartedAt = Date.now();
+    this.persist("active");
+    this.clearError();
     return "true";
   }
 
-  LMSFinish(param: string): string {
-    if (!this.initialized) {
-      this.setError("102", "Not initialized");
+  terminate(param: string): string {
+    if (param !== "") {
+      this.setError("201", "LMSFinish must be called with an empty string");
+      return "false";
+    }
+    if (this.state !== "running") {
+      this.setError(
+        "301",
+        this.state === "terminated"
+          ? "LMSFinish has already been called"
+          : "LMSFinish called before LMSInitialize"
+      );
       return "false";
     }
 
-    this.initialized = false;
-    this.errorCode = "0";
+    this.state = "terminated";
+    this.accumulateSessionTime();
+    this.persist("finished");
+    this.clearError();
+    this.options.onTerminate?.();
     return "true";
   }
 
-  LMSGetValue(element: string): string {
-    if (!this.initialized) {
-      this.setError("102", "Not initialized");
+  getValue(element: string): string {
+    if (this.state !== "running") {
+      this.setError("301", `LMSGetValue("${element}") called while not initialized`);
+      return "";
+    }
+    if (!element) {
+      this.setError("201", "LMSGetValue requires a data model element");
       return "";
     }
 
-    const value = this.dataModel[element as keyof SCORMDataModel];
-    if (value === undefined) {
-      this.setError("301", "Data model element not found");
+    const keyword = this.parseKeyword(element);
+    if (keyword) {
+      const value = this.getKeywordValue(keyword.container, keyword.keyword);
+      if (value !== null) {
+        this.clearError();
+        return value;
+      }
+      if (!this.isKnownContainer(keyword.container) || keyword.keyword === "_version") {
+        this.setError("401", `Data model element ${element} is not implemented`);
+      } else if (keyword.keyword === "_children") {
+        this.setError("202", `${keyword.container} does not have children`);
+      } else {
+        this.setError("203", `${keyword.container} is not an array`);
+      }
       return "";
     }
 
-    this.errorCode = "0";
-    return value;
+    const definition = this.getDefinition(element);
+    if (!definition) {
+      this.setError("401", `Data model element ${element} is not implemented`);
+      return "";
+    }
+    if (definition.access === "wo") {
+      this.setError("404", `${element} is write only`);
+      return "";
+    }
+    if (!this.arrayItemExists(element)) {
+      this.setError("201", `${element} refers to an array item that does not exist`);
+      return "";
+    }
+
+    this.clearError();
+    return this.getStoredValue(element, definition) ?? "";
   }
 
-  LMSSetValue(element: string, value: string): string {
-    if (!this.initialized) {
-      this.setError("102", "Not initialized");
+  setValue(element: string, value: string): string {
+    if (this.state !== "running") {
+      this.setError("301", `LMSSetValue("${element}") called while not initialized`);
+      return "false";
+    }
+    if (!element) {
+      this.setError("201", "LMSSetValue requires a data model element");
       return "false";
     }
 
-    // Validate element name
-    if (!this.isValidElement(element)) {
-      this.setError("351", "Invalid data model element");
+    const keyword = this.parseKeyword(element);
+    if (keyword && this.isKnownContainer(keyword.container)) {
+      this.setError("402", `${element} is a keyword and cannot be set`);
       return "false";
     }
 
-    // Validate value
-    if (!this.isValidValue(element, value)) {
-      this.setError("351", "Invalid value for data model element");
+    const definition = this.getDefinition(element);
+    if (!definition) {
+      this.setError("401", `Data model element ${element} is not implemented`);
+      return "false";
+    }
+    if (definition.access === "ro") {
+      this.setError("403", `${element} is read only`);
+      return "false";
+    }
+    if (this.isValidValue(element, value) !== "valid") {
+      this.setError("405", `"${value}" is not a valid value for ${element}`);
+      return "false";
+    }
+
+    if (this.storeValue(element, value) === "outOfOrder") {
+      this.setError(
+        "201",
+        `${element} is out of order, new array items must be added at index _count`
+      );
       return "false";
     }
 
-    // Type assertion to allow assignment of string or undefined
-    (this.dataModel as any)[element] = value;
-    this.errorCode = "0";
+    this.clearError();
     return "true";
   }
 
-  LMSCommit(param: string): string {
-    if (!this.initialized) {
-      this.setError("102", "Not initialized");
+  commit(param: string): string {
+    if (param !== "") {
+      this.setError("201", "LMSCommit must be called with an empty string");
+      return "false";
+    }
+    if (this.state !== "running") {
+      this.setError("301", "LMSCommit called while not initialized");
       return "false";
     }
 
-    // In a real implementation, this would save data to the LMS
-    this.errorCode = "0";
-    return "true";
-  }
+    const persistenceError = this.takePersistenceError();
+    this.persist("active");
+    if (persistenceError) {
+      this.setError("101", `Failed to save attempt data: ${persistenceError}`);
+      return "false";
+    }
 
-  LMSGetLastError(): string {
-    return this.errorCode;
+    this.clearError();
+    return "true";
   }
+}
 
-  LMSGetErrorString(errorCode: string): string {
-    const errorStrings: Record<string, string> = {
-      "0": "No Error",
-      "101": "General Exception",
-      "102": "Invalid argument error",
-      "103": "Element cannot have children",
-      "104": "Element not an array - cannot have count",
-      "201": "Not initialized",
-      "202": "Not implemented error",
-      "203": "Invalid set value, element is a keyword",
-      "301": "Data model element value not initialized",
-      "351": "Data model element is read only",
-      "391": "Data model element is write only",
-      "401": "Data model element not implemented",
-    };
-    return errorStrings[errorCode] || "Unknown error";
-  }
+export class SCORM2004APIImplementation
+  extends SCORMAPIImplementation
+  implements SCORMAPI
+{
+  protected readonly errorStrings = SCORM2004_ERROR_STRINGS;
 
-  LMSGetDiagnostic(errorCode: string): string {
-    return this.LMSGetErrorString(errorCode);
+  constructor(edition: SCORMEdition = "2004-3rd", options: SCORMAPIOptions = {}) {
+    super("2004", edition, options);
   }
 
-  // SCORM 2004 API Methods
   Initialize(param: string): string {
-    return this.LMSInitialize(param);
+    return this.initialize(param);
   }
 
   Terminate(param: string): string {
-    return this.LMSFinish(param);
+    return this.terminate(param);
   }
 
   GetValue(element: string): string {
-    return this.LMSGetValue(element);
+    return this.getValue(element);
   }
 
   SetValue(element: string, value: string): string {
-    return this.LMSSetValue(element, value);
+    return this.setValue(element, value);
   }
 
   Commit(param: string): string {
-    return this.LMSCommit(param);
+    return this.commit(param);
   }
 
   GetLastError(): string {
-    return this.LMSGetLastError();
+    return this.getLastError();
   }
 
   GetErrorString(errorCode: string): string {
-    return this.LMSGetErrorString(errorCode);
+    return this.getErrorString(errorCode);
   }
 
   GetDiagnostic(errorCode: string): string {
-    return this.LMSGetDiagnostic(errorCode);
+    return this.getDiagnostic(errorCode);
   }
 
-  // Helper methods
-  private setError(code: string, message: string): void {
-    this.errorCode = code;
-    console.error(`SCORM Error ${code}: ${message}`);
-  }
-
-  private isValidElement(element: string): boolean {
-    // SCORM 1.2 Elements
-    const scorm12Elements = [
-      "cmi.core._children",
-      "cmi.core.student_id",
-      "cmi.core.student_name",
-      "cmi.core.lesson_location",
-      "cmi.core.credit",
-      "cmi.core.lesson_status",
-      "cmi.core.entry",
-      "cmi.core.score._children",
-      "cmi.core.score.raw",
-      "cmi.core.score.max",
-      "cmi.core.score.min",
-      "cmi.core.total_time",
-      "cmi.core.lesson_mode",
-      "cmi.core.exit",
-      "cmi.core.session_time",
-      "cmi.suspend_data",
-      "cmi.launch_data",
-      "cmi.comments",
-      "cmi.comments_from_lms",
-      "cmi.objectives._children",
-      "cmi.objectives._count",
-      "cmi.interactions._children",
-      "cmi.interactions._count",
-      "cmi.student_data._children",
-      "cmi.student_data.mastery_score",
-      "cmi.student_data.max_time_allowed",
-      "cmi.student_data.time_limit_action",
-      "cmi.student_preference._children",
-      "cmi.student_preference.audio",
-      "cmi.student_preference.language",
-      "cmi.student_preference.speed",
-      "cmi.student_preference.text",
-    ];
-
-    // SCORM 2004 Elements
-    const scorm2004Elements = [
-      "cmi._version",
-      "cmi.completion_status",
-      "cmi.completion_threshold",
-      "cmi.credit",
-      "cmi.entry",
-      "cmi.exit",
-      "cmi.launch_data",
-      "cmi.learner_id",
-      "cmi.learner_name",
-      "cmi.learner_preference._children",
-      "cmi.learner_preference.audio_level",
-      "cmi.learner_preference.language",
-      "cmi.learner_preference.delivery_speed",
-      "cmi.learner_preference.audio_captioning",
-      "cmi.location",
-      "cmi.max_time_allowed",
-      "cmi.mode",
-      "cmi.objectives._children",
-      "cmi.objectives._count",
-      "cmi.progress_measure",
-      "cmi.scaled_passing_score",
-      "cmi.score._children",
-      "cmi.score.scaled",
-      "cmi.score.raw",
-      "cmi.score.min",
-      "cmi.score.max",
-      "cmi.session_time",
-      "cmi.success_status",
-      "cmi.suspend_data",
-      "cmi.time_limit_action",
-      "cmi.total_time",
-      "cmi.comments_from_learner._children",
-      "cmi.comments_from_learner._count",
-      "cmi.comments_from_lms._children",
-      "cmi.comments_from_lms._count",
-      "cmi.interactions._children",
-      "cmi.interactions._count",
-      "adl.nav.request",
-      "adl.nav.request_valid.continue",
-      "adl.nav.request_valid.previous",
-      "adl.nav.request_valid.choice",
-      "adl.nav.request_valid.jump",
-    ];
-
-    // Check dynamic elements (objectives and interactions with indices)
-    const dynamicPatterns = [
-      /^cmi\.objectives\.\d+\.(id|score\._children|score\.scaled|score\.raw|score\.min|score\.max|success_status|completion_status|progress_measure|description)$/,
-      /^cmi\.interactions\.\d+\.(id|type|objectives\._count|timestamp|correct_responses\._count|weighting|learner_response|result|latency|description)$/,
-      /^cmi\.interactions\.\d+\.objectives\.\d+\.id$/,
-      /^cmi\.interactions\.\d+\.correct_responses\.\d+\.pattern$/,
-      /^cmi\.comments_from_learner\.\d+\.(comment|location|timestamp)$/,
-      /^cmi\.comments_from_lms\.\d+\.(comment|location|timestamp)$/,
-    ];
-
-    const validElements =
-      this.version === "1.2" ? scorm12Elements : scorm2004Elements;
-
-    // Check static elements
-    if (validElements.includes(element)) {
-      return true;
-    }
-
-    // Check dynamic patterns for SCORM 2004
-    if (this.version === "2004") {
-      return dynamicPatterns.some((pattern) => pattern.test(element));
+  initialize(param: string): string {
+    if (param !== "") {
+      this.setError("201", "Initialize must be called with an empty string");
+      return "false";
+    }
+    if (this.state === "running") {
+      this.setError("103", "Initialize has already been called for this attempt");
+      return "false";
+    }
+    if (this.state === "terminated") {
+      this.setError("104", "Initialize cannot be called after Terminate");
+      return "false";
     }
 
-    return false;
+    this.state = "running";
+    this.sessionStartedAt = Date.now();
+    this.persist("active");
+    this.clearError();
+    return "true";
   }
 
-  private isValidValue(element: string, value: string): boolean {
-    // Comprehensive SCORM data validation
-
-    // Score validation
-    if (
-      element.includes("score.raw") ||
-      element.includes("score.max") ||
-      element.includes("score.min")
-    ) {
-      if (value === "") return true; // Empty values are valid for optional fields
-      const num = parseFloat(value);
-      return !isNaN(num) && isFinite(num);
+  terminate(param: string): string {
+    if (param !== "") {
+      this.setError("201", "Terminate must be called with an empty string");
+      return "false";
     }
-
-    if (element.includes("score.scaled")) {
-      if (value === "") return true;
-      const num = parseFloat(value);
-      return !isNaN(num) && isFinite(num) && num >= -1 && num <= 1;
+    if (this.state === "notInitialized") {
+      this.setError("112", "Terminate called before Initialize");
+      return "false";
     }
-
-    // Status validation
-    if (element === "cmi.core.lesson_status") {
-      const validStatuses = [
-        "passed",
-        "completed",
-        "failed",
-        "incomplete",
-        "browsed",
-        "not attempted",
-      ];
-      return validStatuses.includes(value);
+    if (this.state === "terminated") {
+      this.setError("113", "Terminate has already been called");
+      return "false";
     }
 
-    if (element === "cmi.completion_status") {
-      const validStatuses = [
-        "completed",
-        "incomplete",
-        "not attempted",
-        "unknown",
-      ];
-      return validStatuses.includes(value);
-    }
+    this.state = "terminated";
+    this.accumulateSessionTime();
+    this.persist("finished");
+    this.clearError();
+    this.options.onTerminate?.();
+    return "true";
+  }
 
-    if (element === "cmi.success_status") {
-      const validStatuses = ["passed", "failed", "unknown"];
-      return validStatuses.includes(value);
+  getValue(element: string): string {
+    if (this.state === "notInitialized") {
+      this.setError("122", `GetValue("${element}") called before Initialize`);
+      return "";
     }
-
-    // Time validation (ISO 8601 duration format)
-    if (element.includes("time") && value !== "") {
-      // Basic time format validation - should be more comprehensive
-      const timePattern =
-        /^P(?:(\d+)Y)?(?:(\d+)M)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+(?:\.\d+)?)S)?)?$/;
-      return (
-        timePattern.test(value) || /^\d{2}:\d{2}:\d{2}(\.\d+)?$/.test(value)
-      );
+    if (this.state === "terminated") {
+      this.setError("123", `GetValue("${element}") called after Terminate`);
+      return "";
     }
-
-    // Credit validation
-    if (element === "cmi.core.credit" || element === "cmi.credit") {
-      return ["credit", "no-credit"].includes(value);
+    if (!element) {
+      this.setError("301", "GetValue requires a data model element");
+      return "";
     }
 
-    // Mode validation
-    if (element === "cmi.core.lesson_mode" || element === "cmi.mode") {
-      return ["browse", "normal", "review"].includes(value);
+    const keyword = this.parseKeyword(element);
+    if (keyword) {
+      const value = this.getKeywordValue(keyword.container, keyword.keyword);
+      if (value !== null) {
+        this.clearError();
+        return value;
+      }
+      if (this.isKnownContainer(keyword.container)) {
+        this.setError("301", `${keyword.container} does not support ${keyword.keyword}`);
+      } else {
+        this.setError("401", `${element} is not a defined data model element`);
+      }
+      return "";
     }
 
-    // Entry validation
-    if (element === "cmi.core.entry" || element === "cmi.entry") {
-      return ["ab-initio", "resume", ""].includes(value);
+    const definition = this.getDefinition(element);
+    if (!definition) {
+      this.setError("401", `${element} is not a defined data model element`);
+      return "";
     }
-
-    // Exit validation
-    if (element === "cmi.core.exit" || element === "cmi.exit") {
-      const validExits =
-        this.version === "1.2"
-          ? ["time-out", "suspend", "logout", ""]
-          : ["time-out", "suspend", "logout", "normal", ""];
-      return validExits.includes(value);
+    if (definition.access === "wo") {
+      this.setError("405", `${element} is write only`);
+      return "";
     }
-
-    // Progress measure validation (SCORM 2004)
-    if (element === "cmi.progress_measure") {
-      if (value === "") return true;
-      const num = parseFloat(value);
-      return !isNaN(num) && isFinite(num) && num >= 0 && num <= 1;
+    if (!this.arrayItemExists(element)) {
+      this.setError("301", `${element} refers to an array item that does not exist`);
+      return "";
     }
 
-    // Navigation request validation (SCORM 2004)
-    if (element === "adl.nav.request") {
-      const validRequests = [
-        "continue",
-        "previous",
-        "choice",
-        "exit",
-        "exitAll",
-        "abandon",
-        "abandonAll",
-      ];
-      return validRequests.includes(value);
+    const value = this.getStoredValue(element, definition);
+    if (value === undefined) {
+      this.setError("403", `${element} has not been initialized`);
+      return "";
     }
 
-    // Boolean validation for navigation request valid elements
-    if (element.startsWith("adl.nav.request_valid.")) {
-      return ["true", "false", "unknown"].includes(value);
-    }
+    this.clearError();
+    return value;
+  }
 
-    // Interaction type validation
-    if (element.includes("interactions.") && element.endsWith(".type")) {
-      const validTypes = [
-        "true-false",
-        "choice",
-        "fill-in",
-        "long-fill-in",
-        "matching",
-        "performance",
-        "sequencing",
-        "likert",
-        "numeric",
-        "other",
-      ];
-      return validTypes.includes(value);
+  setValue(element: string, value: string): string {
+    if (this.state === "notInitialized") {
+      this.setError("132", `SetValue("${element}") called before Initialize`);
+      return "false";
     }
-
-    // Interaction result validation
-    if (element.includes("interactions.") && element.endsWith(".result")) {
-      const validResults = ["correct", "incorrect", "unanticipated", "neutral"];
-      return validResults.includes(value) || /^[\d\.]+$/.test(value); // numeric result
+    if (this.state === "terminated") {
+      this.setError("133", `SetValue("${element}") called after Terminate`);
+      return "false";
+    }
+    if (!element) {
+      this.setError("351", "SetValue requires a data model element");
+      return "false";
     }
 
-    // Audio captioning validation (SCORM 2004)
-    if (element === "cmi.learner_preference.audio_captioning") {
-      return ["-1", "0", "1"].includes(value);
+    const keyword = this.parseKeyword(element);
+    if (keyword && this.isKnownContainer(keyword.container)) {
+      this.setError("404", `${element} is a keyword and is read only`);
+      return "false";
     }
 
-    // Time limit action validation
-    if (element === "cmi.time_limit_action") {
-      const validActions = [
-        "exit,message",
-        "exit,no message",
-        "continue,message",
-        "continue,no message",
-      ];
-      return validActions.includes(value);
+    const definition = this.getDefinition(element);
+    if (!definition) {
+      this.setError("401", `${element} is not a defined data model element`);
+      return "false";
+    }
+    if (definition.access === "ro") {
+      this.setError("404", `${element} is read only`);
+      return "false";
     }
 
-    // String length validation for suspend_data
-    if (element === "cmi.suspend_data") {
-      // SCORM 1.2: 4096 chars, SCORM 2004: 64000 chars
-      const maxLength = this.version === "1.2" ? 4096 : 64000;
-      return value.length <= maxLength;
+    const check = this.isValidValue(element, value);
+    if (check === "typeMismatch") {
+      this.setError("406", `"${value}" is not a valid value for ${element}`);
+      return "false";
+    }
+    if (check === "outOfRange") {
+      this.setError("407", `${value} is out of range for ${element}`);
+      return "false";
     }
 
-    // Default: allow any string value for other elements
-    return typeof value === "string";
-  }
+    switch (this.storeValue(element, value)) {
+      case "outOfOrder":
+        this.setError(
+          "351",
+          `${element} is out of order, new array items must be added at index _count`
+        );
+        return "false";
+      case "duplicateIdentifier":
+        this.setError("351", `The identifier "${value}" is already in use`);
+        return "false";
+      case "dependencyNotEstablished":
+        this.setError(
+          "408",
+          element.includes(".correct_responses.")
+            ? `The interaction type must be set before ${element}`
+            : `The id must be set before ${element}`
+        );
+        return "false";
+    }
 
-  // Public methods for external access
-  public getDataModel(): SCORMDataModel {
-    return { ...this.dataModel };
+    this.clearError();
+    return "true";
   }
 
-  public setDataModel(data: Partial<SCORMDataModel>): void {
-    this.dataModel = { ...this.dataModel, ...data };
-  }
+  commit(param: string): string {
+    if (param !== "") {
+      this.setError("201", "Commit must be called with an empty string");
+      return "false";
+    }
+    if (this.state === "notInitialized") {
+      this.setError("142", "Commit called before Initialize");
+      return "false";
+    }
+    if (this.state === "terminated") {
+      this.setError("143", "Commit called after Terminate");
+      return "false";
+    }
 
-  public isInitialized(): boolean {
-    return this.initialized;
-  }
+    const persistenceError = this.takePersistenceError();
+    this.persist("active");
+    if (persistenceError) {
+      this.setError("391", `Failed to save attempt data: ${persistenceError}`);
+      return "false";
+    }
 
-  public getVersion(): SCORMVersion {
-    return this.version;
+    this.clearError();
+    return "true";
   }
 }
 
@@ -469,9 +996,14 @@ export function findSCORMAPI(window: Window): SCORMAPI | null {
 
 // Global API setup
 export function setupSCORMAPI(
-  version: SCORMVersion = "1.2"
+  version: SCORMVersion = "1.2",
+  edition?: SCORMEdition,
+  options: SCORMAPIOptions = {}
 ): SCORMAPIImplementation {
-  const api = new SCORMAPIImplementation(version);
+  const api: SCORMAPIImplementation =
+    version === "1.2"
+      ? new SCORM12APIImplementation(options)
+      : new SCORM2004APIImplementation(edition, options);
 
   if (typeof window !== "undefined") {
     if (version === "1.2") {
@@ -0,0 +1,514 @@
+// SCORM CMI Data Model Definitions
+// Declarative description of every data model element per SCORM version:
+// access mode, value type, vocabulary, maximum length, range and default.
+// The runtime API is driven by these tables, including the _children, _count
+// and _version keywords.
+
+import { SCORMEdition, SCORMVersion } from "@/types/scorm";
+
+export type CMIAccess = "ro" | "wo" | "rw";
+
+export type CMIValueType =
+  | "keyword" // _children, _count and _version, answered by the API
+  | "string"
+  | "identifier"
+  | "real"
+  | "integer"
+  | "vocabulary"
+  | "timespan" // SCORM 1.2 CMITimespan (HHHH:MM:SS.SS)
+  | "time" // SCORM 1.2 CMITime (HH:MM:SS.SS)
+  | "timeinterval" // SCORM 2004 ISO 8601 duration
+  | "datetime" // SCORM 2004 ISO 8601 timestamp
+  | "language"
+  | "result" // vocabulary or a real number
+  | "navRequest";
+
+export interface CMIElementDefinition {
+  access: CMIAccess;
+  type: CMIValueType;
+  vocabulary?: string[];
+  maxLength?: number;
+  min?: number;
+  max?: number;
+  defaultValue?: string;
+  allowEmpty?: boolean; // CMIBlank is accepted in addition to the type
+  editions?: SCORMEdition[]; // Only defined in these editions
+}
+
+export type CMIValueCheck = "valid" | "typeMismatch" | "outOfRange";
+
+// Array indices are written as "n" in the tables
+export const ARRAY_INDEX = "n";
+
+const SCORM12_LESSON_STATUS = [
+  "passed",
+  "completed",
+  "failed",
+  "incomplete",
+  "browsed",
+  "not attempted",
+];
+
+const SCORM12_INTERACTION_TYPES = [
+  "true-false",
+  "choice",
+  "fill-in",
+  "matching",
+  "performance",
+  "sequencing",
+  "likert",
+  "numeric",
+];
+
+const SCORM2004_INTERACTION_TYPES = [
+  "true-false",
+  "choice",
+  "fill-in",
+  "long-fill-in",
+  "matching",
+  "performance",
+  "sequencing",
+  "likert",
+  "numeric",
+  "other",
+];
+
+const TIME_LIMIT_ACTIONS = [
+  "exit,message",
+  "exit,no message",
+  "continue,message",
+  "continue,no message",
+];
+
+const SCORM12_SCORE = (prefix: string): Record<string, CMIElementDefinition> => ({
+  [`${prefix}._children`]: { access: "ro", type: "keyword" },
+  [`${prefix}.raw`]: { access: "rw", type: "real", min: 0, max: 100, allowEmpty: true },
+  [`${prefix}.min`]: { access: "rw", type: "real", min: 0, max: 100, allowEmpty: true },
+  [`${prefix}.max`]: { access: "rw", type: "real", min: 0, max: 100, allowEmpty: true },
+});
+
+const SCORM2004_SCORE = (prefix: string): Record<string, CMIElementDefinition> => ({
+  [`${prefix}._children`]: { access: "ro", type: "keyword" },
+  [`${prefix}.scaled`]: { access: "rw", type: "real", min: -1, max: 1 },
+  [`${prefix}.raw`]: { access: "rw", type: "real" },
+  [`${prefix}.min`]: { access: "rw", type: "real" },
+  [`${prefix}.max`]: { access: "rw", type: "real" },
+});
+
+export const SCORM12_DATA_MODEL: Record<string, CMIElementDefinition> = {
+  "cmi.core._children": { access: "ro", type: "keyword" },
+  "cmi.core.student_id": { access: "ro", type: "identifier", maxLength: 255 },
+  "cmi.core.student_name": { access: "ro", type: "string", maxLength: 255 },
+  "cmi.core.lesson_location": { access: "rw", type: "string", maxLength: 255 },
+  "cmi.core.credit": {
+    access: "ro",
+    type: "vocabulary",
+    vocabulary: ["credit", "no-credit"],
+    defaultValue: "credit",
+  },
+  "cmi.core.lesson_status": {
+    access: "rw",
+    type: "vocabulary",
+    // "not attempted" is only reported by the LMS, a SCO may not set it
+    vocabulary: SCORM12_LESSON_STATUS.filter((status) => status !== "not attempted"),
+    defaultValue: "not attempted",
+  },
+  "cmi.core.entry": {
+    access: "ro",
+    type: "vocabulary",
+    vocabulary: ["ab-initio", "resume", ""],
+    defaultValue: "ab-initio",
+  },
+  ...SCORM12_SCORE("cmi.core.score"),
+  "cmi.core.total_time": { access: "ro", type: "timespan", defaultValue: "0000:00:00.00" },
+  "cmi.core.lesson_mode": {
+    access: "ro",
+    type: "vocabulary",
+    vocabulary: ["browse", "normal", "review"],
+    defaultValue: "normal",
+  },
+  "cmi.core.exit": {
+    access: "wo",
+    type: "vocabulary",
+    vocabulary: ["time-out", "suspend", "logout", ""],
+  },
+  "cmi.core.session_time": { access: "wo", type: "timespan" },
+  "cmi.suspend_data": { access: "rw", type: "string", maxLength: 4096 },
+  "cmi.launch_data": { access: "ro", type: "string", maxLength: 4096 },
+  "cmi.comments": { access: "rw", type: "string", maxLength: 4096 },
+  "cmi.comments_from_lms": { access: "ro", type: "string", maxLength: 4096 },
+  "cmi.objectives._children": { access: "ro", type: "keyword" },
+  "cmi.objectives._count": { access: "ro", type: "keyword" },
+  "cmi.objectives.n.id": { access: "rw", type: "identifier", maxLength: 255 },
+  ...SCORM12_SCORE("cmi.objectives.n.score"),
+  "cmi.objectives.n.status": {
+    access: "rw",
+    type: "vocabulary",
+    vocabulary: SCORM12_LESSON_STATUS,
+  },
+  "cmi.student_data._children": { access: "ro", type: "keyword" },
+  "cmi.student_data.mastery_score": { access: "ro", type: "real", min: 0, max: 100 },
+  "cmi.student_data.max_time_allowed": { access: "ro", type: "timespan" },
+  "cmi.student_data.time_limit_action": {
+    access: "ro",
+    type: "vocabulary",
+    vocabulary: TIME_LIMIT_ACTIONS,
+  },
+  "cmi.student_preference._children": { access: "ro", type: "keyword" },
+  "cmi.student_preference.audio": { access: "rw", type: "integer", min: -1, max: 100 },
+  "cmi.student_preference.language": { access: "rw", type: "string", maxLength: 255 },
+  "cmi.student_preference.speed": { access: "rw", type: "integer", min: -100, max: 100 },
+  "cmi.student_preference.text": { access: "rw", type: "integer", min: -1, max: 1 },
+  "cmi.interactions._children": { access: "ro", type: "keyword" },
+  "cmi.interactions._count": { access: "ro", type: "keyword" },
+  "cmi.interactions.n.id": { access: "wo", type: "identifier", maxLength: 255 },
+  "cmi.interactions.n.objectives._count": { access: "ro", type: "keyword" },
+  "cmi.interactions.n.objectives.n.id": { access: "wo", type: "identifier", maxLength: 255 },
+  "cmi.interactions.n.time": { access: "wo", type: "time" },
+  "cmi.interactions.n.type": {
+    access: "wo",
+    type: "vocabulary",
+    vocabulary: SCORM12_INTERACTION_TYPES,
+  },
+  "cmi.interactions.n.correct_responses._count": { access: "ro", type: "keyword" },
+  "cmi.interactions.n.correct_responses.n.pattern": {
+    access: "wo",
+    type: "string",
+    maxLength: 255,
+  },
+  "cmi.interactions.n.weighting": { access: "wo", type: "real" },
+  "cmi.interactions.n.student_response": { access: "wo", type: "string", maxLength: 255 },
+  "cmi.interactions.n.result": {
+    access: "wo",
+    type: "result",
+    vocabulary: ["correct", "wrong", "unanticipated", "neutral"],
+  },
+  "cmi.interactions.n.latency": { access: "wo", type: "timespan" },
+};
+
+export const SCORM2004_DATA_MODEL: Record<string, CMIElementDefinition> = {
+  "cmi._version": { access: "ro", type: "keyword" },
+  "cmi.comments_from_learner._children": { access: "ro", type: "keyword" },
+  "cmi.comments_from_learner._count": { access: "ro", type: "keyword" },
+  "cmi.comments_from_learner.n.comment": { access: "rw", type: "string", maxLength: 4000 },
+  "cmi.comments_from_learner.n.location": { access: "rw", type: "string", maxLength: 250 },
+  "cmi.comments_from_learner.n.timestamp": { access: "rw", type: "datetime" },
+  "cmi.comments_from_lms._children": { access: "ro", type: "keyword" },
+  "cmi.comments_from_lms._count": { access: "ro", type: "keyword" },
+  "cmi.comments_from_lms.n.comment": { access: "ro", type: "string", maxLength: 4000 },
+  "cmi.comments_from_lms.n.location": { access: "ro", type: "string", maxLength: 250 },
+  "cmi.comments_from_lms.n.timestamp": { access: "ro", type: "datetime" },
+  "cmi.completion_status": {
+    access: "rw",
+    type: "vocabulary",
+    vocabulary: ["completed", "incomplete", "not attempted", "unknown"],
+    defaultValue: "unknown",
+  },
+  "cmi.completion_threshold": { access: "ro", type: "real", min: 0, max: 1 },
+  "cmi.credit": {
+    access: "ro",
+    type: "vocabulary",
+    vocabulary: ["credit", "no-credit"],
+    defaultValue: "credit",
+  },
+  "cmi.entry": {
+    access: "ro",
+    type: "vocabulary",
+    vocabulary: ["ab-initio", "resume", ""],
+    defaultValue: "ab-initio",
+  },
+  "cmi.exit": {
+    access: "wo",
+    type: "vocabulary",
+    vocabulary: ["time-out", "suspend", "logout", "normal", ""],
+  },
+  "cmi.interactions._children": { access: "ro", type: "keyword" },
+  "cmi.interactions._count": { access: "ro", type: "keyword" },
+  "cmi.interactions.n.id": { access: "rw", type: "identifier", maxLength: 4000 },
+  "cmi.interactions.n.type": {
+    access: "rw",
+    type: "vocabulary",
+    vocabulary: SCORM2004_INTERACTION_TYPES,
+  },
+  "cmi.interactions.n.objectives._count": { access: "ro", type: "keyword" },
+  "cmi.interactions.n.objectives.n.id": { access: "rw", type: "identifier", maxLength: 4000 },
+  "cmi.interactions.n.timestamp": { access: "rw", type: "datetime" },
+  "cmi.interactions.n.correct_responses._count": { access: "ro", type: "keyword" },
+  "cmi.interactions.n.correct_responses.n.pattern": { access: "rw", type: "string" },
+  "cmi.interactions.n.weighting": { access: "rw", type: "real" },
+  "cmi.interactions.n.learner_response": { access: "rw", type: "string" },
+  "cmi.interactions.n.result": {
+    access: "rw",
+    type: "result",
+    vocabulary: ["correct", "incorrect", "unanticipated", "neutral"],
+  },
+  "cmi.interactions.n.latency": { access: "rw", type: "timeinterval" },
+  "cmi.interactions.n.description": { access: "rw", type: "string", maxLength: 250 },
+  "cmi.launch_data": { access: "ro", type: "string", maxLength: 4000 },
+  "cmi.learner_id": { access: "ro", type: "identifier", maxLength: 4000 },
+  "cmi.learner_name": { access: "ro", type: "string", maxLength: 250 },
+  "cmi.learner_preference._children": { access: "ro", type: "keyword" },
+  "cmi.learner_preference.audio_level": {
+    access: "rw",
+    type: "real",
+    min: 0,
+    defaultValue: "1",
+  },
+  "cmi.learner_preference.language": {
+    access: "rw",
+    type: "language",
+    maxLength: 250,
+    defaultValue: "",
+  },
+  "cmi.learner_preference.delivery_speed": {
+    access: "rw",
+    type: "real",
+    min: 0,
+    defaultValue: "1",
+  },
+  "cmi.learner_preference.audio_captioning": {
+    access: "rw",
+    type: "vocabulary",
+    vocabulary: ["-1", "0", "1"],
+    defaultValue: "0",
+  },
+  "cmi.location": { access: "rw", type: "string", maxLength: 1000 },
+  "cmi.max_time_allowed": { access: "ro", type: "timeinterval" },
+  "cmi.mode": {
+    access: "ro",
+    type: "vocabulary",
+    vocabulary: ["browse", "normal", "review"],
+    defaultValue: "normal",
+  },
+  "cmi.objectives._children": { access: "ro", type: "keyword" },
+  "cmi.objectives._count": { access: "ro", type: "keyword" },
+  "cmi.objectives.n.id": { access: "rw", type: "identifier", maxLength: 4000 },
+  ...SCORM2004_SCORE("cmi.objectives.n.score"),
+  "cmi.objectives.n.success_status": {
+    access: "rw",
+    type: "vocabulary",
+    vocabulary: ["passed", "failed", "unknown"],
+    defaultValue: "unknown",
+  },
+  "cmi.objectives.n.completion_status": {
+    access: "rw",
+    type: "vocabulary",
+    vocabulary: ["completed", "incomplete", "not attempted", "unknown"],
+    defaultValue: "unknown",
+  },
+  "cmi.objectives.n.progress_measure": { access: "rw", type: "real", min: 0, max: 1 },
+  "cmi.objectives.n.description": { access: "rw", type: "string", maxLength: 250 },
+  "cmi.progress_measure": { access: "rw", type: "real", min: 0, max: 1 },
+  "cmi.scaled_passing_score": { access: "ro", type: "real", min: -1, max: 1 },
+  ...SCORM2004_SCORE("cmi.score"),
+  "cmi.session_time": { access: "wo", type: "timeinterval" },
+  "cmi.success_status": {
+    access: "rw",
+    type: "vocabulary",
+    vocabulary: ["passed", "failed", "unknown"],
+    defaultValue: "unknown",
+  },
+  "cmi.suspend_data": { access: "rw", type: "string", maxLength: 64000 },
+  "cmi.time_limit_action": {
+    access: "ro",
+    type: "vocabulary",
+    vocabulary: TIME_LIMIT_ACTIONS,
+    defaultValue: "continue,no message",
+  },
+  "cmi.total_time": { access: "ro", type: "timeinterval", defaultValue: "PT0H0M0S" },
+  "adl.nav.request": {
+    access: "rw",
+    type: "navRequest",
+    vocabulary: [
+      "continue",
+      "previous",
+      "choice",
+      "exit",
+      "exitAll",
+      "abandon",
+      "abandonAll",
+      "suspendAll",
+      "_none_",
+    ],
+    defaultValue: "_none_",
+  },
+  "adl.nav.request_valid.continue": {
+    access: "ro",
+    type: "vocabulary",
+    vocabulary: ["true", "false", "unknown"],
+    defaultValue: "unknown",
+  },
+  "adl.nav.request_valid.previous": {
+    access: "ro",
+    type: "vocabulary",
+    vocabulary: ["true", "false", "unknown"],
+    defaultValue: "unknown",
+  },
+  // Addressed as adl.nav.request_valid.choice.{target=<activity id>}
+  "adl.nav.request_valid.choice": {
+    access: "ro",
+    type: "vocabulary",
+    vocabulary: ["true", "false", "unknown"],
+    defaultValue: "unknown",
+  },
+  // Jump navigation requests were introduced in SCORM 2004 4th Edition
+  "adl.nav.request_valid.jump": {
+    access: "ro",
+    type: "vocabulary",
+    vocabulary: ["true", "false", "unknown"],
+    defaultValue: "unknown",
+    editions: ["2004-4th"],
+  },
+};
+
+export function getDataModelDefinitions(
+  version: SCORMVersion
+): Record<string, CMIElementDefinition> {
+  return version === "1.2" ? SCORM12_DATA_MODEL : SCORM2004_DATA_MODEL;
+}
+
+/**
+ * Map a concrete element name to its key in the definition tables, e.g.
+ * cmi.interactions.3.objectives.0.id -> cmi.interactions.n.objectives.n.id
+ */
+export function normalizeElement(element: string): string {
+  return element
+    .replace(/\.\{target=[^}]*\}$/, "")
+    .split(".")
+    .map((segment) => (/^\d+$/.test(segment) ? ARRAY_INDEX : segment))
+    .join(".");
+}
+
+/**
+ * Look up the definition of a data model element
+ * @param version - SCORM version whose table is consulted
+ * @param element - Concrete element name, array indices included
+ * @param edition - Edition of the running package, for edition-specific elements
+ */
+export function getElementDefinition(
+  version: SCORMVersion,
+  element: string,
+  edition?: SCORMEdition
+): CMIElementDefinition | undefined {
+  const definition = getDataModelDefinitions(version)[normalizeElement(element)];
+  if (definition?.editions && (!edition || !definition.editions.includes(edition))) {
+    return undefined;
+  }
+  return definition;
+}
+
+/**
+ * Build the value of a _children keyword from the table: the names of the
+ * direct children of a container, in definition order
+ * @param version - SCORM version whose table is consulted
+ * @param container - Normalized container name, e.g. cmi.core or cmi.objectives
+ * @returns The comma separated child list, or null if the container has none
+ */
+export function getChildrenKeyword(
+  version: SCORMVersion,
+  container: string
+): string | null {
+  const definitions = getDataModelDefinitions(version);
+  if (!definitions[`${container}._children`]) {
+    return null;
+  }
+
+  // The children of an array are those of its items
+  const prefix = definitions[`${container}._count`]
+    ? `${container}.${ARRAY_INDEX}.`
+    : `${container}.`;
+
+  const children: string[] = [];
+  for (const key of Object.keys(definitions)) {
+    if (!key.startsWith(prefix)) continue;
+    const child = key.substring(prefix.length).split(".")[0];
+    if (!child.startsWith("_") && !children.includes(child)) {
+      children.push(child);
+    }
+  }
+  return children.join(",");
+}
+
+export function isArrayContainer(version: SCORMVersion, container: string): boolean {
+  return !!getDataModelDefinitions(version)[`${container}._count`];
+}
+
+/**
+ * Check a value against an element definition
+ * @param edition - Edition of the running package, for edition-specific values
+ * @returns "valid", or whether the value has the wrong type or is out of range
+ */
+export function validateCMIValue(
+  definition: CMIElementDefinition,
+  value: string,
+  edition?: SCORMEdition
+): CMIValueCheck {
+  if (value === "" && definition.allowEmpty) {
+    return "valid";
+  }
+  if (definition.maxLength !== undefined && value.length > definition.maxLength) {
+    return "typeMismatch";
+  }
+
+  switch (definition.type) {
+    case "keyword":
+      return "typeMismatch";
+
+    case "string":
+      return "valid";
+
+    case "identifier":
+      return value !== "" && !/\s/.test(value) ? "valid" : "typeMismatch";
+
+    case "vocabulary":
+      return definition.vocabulary?.includes(value) ? "valid" : "typeMismatch";
+
+    case "real":
+      if (!/^-?(\d+(\.\d*)?|\.\d+)$/.test(value)) return "typeMismatch";
+      return checkRange(definition, parseFloat(value));
+
+    case "integer":
+      if (!/^-?\d+$/.test(value)) return "typeMismatch";
+      return checkRange(definition, parseInt(value, 10));
+
+    case "result":
+      if (definition.vocabulary?.includes(value)) return "valid";
+      return /^-?(\d+(\.\d*)?|\.\d+)$/.test(value) ? "valid" : "typeMismatch";
+
+    case "timespan":
+      return /^\d{2,4}:\d{2}:\d{2}(\.\d{1,2})?$/.test(value) ? "valid" : "typeMismatch";
+
+    case "time":
+      return /^([01]\d|2[0-3]):[0-5]\d:[0-5]\d(\.\d{1,2})?$/.test(value)
+        ? "valid"
+        : "typeMismatch";
+
+    case "timeinterval":
+      return /^P(?!$)(\d+Y)?(\d+M)?(\d+D)?(T(?=\d)(\d+H)?(\d+M)?(\d+(\.\d{1,2})?S)?)?$/.test(value)
+        ? "valid"
+        : "typeMismatch";
+
+    case "datetime":
+      return /^\d{4}(-\d{2}(-\d{2}(T\d{2}(:\d{2}(:\d{2}(\.\d{1,2})?)?)?(Z|[+-]\d{2}(:\d{2})?)?)?)?)?$/.test(
+        value
+      )
+        ? "valid"
+        : "typeMismatch";
+
+    case "language":
+      return /^([a-zA-Z]{1,8}(-[a-zA-Z0-9]{1,8})*)?$/.test(value) ? "valid" : "typeMismatch";
+
+    case "navRequest": {
+      if (definition.vocabulary?.includes(value)) return "valid";
+      const match = /^\{target=[^}\s]+\}(choice|jump)$/.exec(value);
+      // Jump navigation requests were introduced in SCORM 2004 4th Edition
+      return match && (match[1] === "choice" || edition === "2004-4th") ? "valid" : "typeMismatch";
+    }
+  }
+}
+
+function checkRange(definition: CMIElementDefinition, value: number): CMIValueCheck {
+  if (definition.min !== undefined && value < definition.min) return "outOfRange";
+  if (definition.max !== undefined && value > definition.max) return "outOfRange";
+  return "valid";
+}
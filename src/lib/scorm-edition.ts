@@ -0,0 +1,81 @@
+// SCORM Edition Detection
+// Determines which SCORM edition a manifest targets from its declared
+// schemaversion and, when that is missing or ambiguous, its XML namespaces.
+
+import { SCORMEdition, SCORMVersion } from "@/types/scorm";
+
+export const SCORM_NAMESPACES = {
+  IMSCP: "http://www.imsglobal.org/xsd/imscp_v1p1",
+  IMSCP_12: "http://www.imsproject.org/xsd/imscp_rootv1p1p2",
+  ADLCP_12: "http://www.adlnet.org/xsd/adlcp_rootv1p2",
+  ADLCP_2004: "http://www.adlnet.org/xsd/adlcp_v1p3",
+  IMSSS: "http://www.imsglobal.org/xsd/imsss",
+  ADLSEQ: "http://www.adlnet.org/xsd/adlseq_v1p3",
+  ADLNAV: "http://www.adlnet.org/xsd/adlnav_v1p3",
+} as const;
+
+const SCORM_2004_NAMESPACES: string[] = [
+  SCORM_NAMESPACES.ADLCP_2004,
+  SCORM_NAMESPACES.IMSSS,
+  SCORM_NAMESPACES.ADLSEQ,
+  SCORM_NAMESPACES.ADLNAV,
+];
+
+// Used when a manifest is clearly SCORM 2004 but does not say which edition.
+// 3rd Edition is what most authoring tools publish by default.
+const DEFAULT_2004_EDITION: SCORMEdition = "2004-3rd";
+
+/**
+ * Detect the SCORM edition of a manifest
+ * @param schemaversion - Text of <metadata><schemaversion>, if present
+ * @param namespaces - Namespace URIs declared on the manifest (xmlns and xsi:schemaLocation)
+ * @returns The detected edition, SCORM 1.2 when nothing identifies the package
+ */
+export function detectSCORMEdition(
+  schemaversion: string | undefined,
+  namespaces: string[] = []
+): SCORMEdition {
+  const declared = schemaversion?.trim().toLowerCase() || "";
+
+  if (declared === "1.2") {
+    return "1.2";
+  }
+  if (declared === "cam 1.3") {
+    return "2004-2nd";
+  }
+  if (declared.includes("2004")) {
+    if (declared.includes("4th")) return "2004-4th";
+    if (declared.includes("3rd")) return "2004-3rd";
+    if (declared.includes("2nd")) return "2004-2nd";
+  }
+
+  const normalizedNamespaces = namespaces.map((ns) =>
+    ns.trim().toLowerCase().replace(/\/$/, "")
+  );
+  const has2004Namespace = normalizedNamespaces.some((ns) =>
+    SCORM_2004_NAMESPACES.includes(ns)
+  );
+
+  if (has2004Namespace || declared.includes("2004")) {
+    return DEFAULT_2004_EDITION;
+  }
+
+  return "1.2";
+}
+
+export function getSCORMVersion(edition: SCORMEdition): SCORMVersion {
+  return edition === "1.2" ? "1.2" : "2004";
+}
+
+export function getEditionLabel(edition: SCORMEdition): string {
+  switch (edition) {
+    case "1.2":
+      return "SCORM 1.2";
+    case "2004-2nd":
+      return "SCORM 2004 2nd Edition";
+    case "2004-3rd":
+      return "SCORM 2004 3rd Edition";
+    case "2004-4th":
+      return "SCORM 2004 4th Edition";
+  }
+}
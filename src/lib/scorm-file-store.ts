@@ -0,0 +1,103 @@
+// SCORM Package File Store
+// Binary-safe storage for the files of an unzipped package. Contents are kept
+// as raw bytes; text is only decoded when a caller asks for it.
+
+import { detectContentType } from "@/lib/scorm-mime";
+
+export interface SCORMPackageFile {
+  path: string;
+  data: Uint8Array;
+  contentType: string;
+  size: number;
+}
+
+export class SCORMFileStore {
+  private files = new Map<string, SCORMPackageFile>();
+  private textCache = new Map<string, string>();
+  private decoder: TextDecoder | null = null;
+
+  /**
+   * Add a file to the store
+   * @param path - File path relative to the package root
+   * @param data - Raw file contents
+   * @param contentType - Optional explicit content type, detected when omitted
+   */
+  set(path: string, data: Uint8Array, contentType?: string): this {
+    this.files.set(path, {
+      path,
+      data,
+      contentType: contentType || detectContentType(path, data),
+      size: data.byteLength,
+    });
+    this.textCache.delete(path);
+    return this;
+  }
+
+  get(path: string): SCORMPackageFile | undefined {
+    return this.files.get(path);
+  }
+
+  has(path: string): boolean {
+    return this.files.has(path);
+  }
+
+  delete(path: string): boolean {
+    this.textCache.delete(path);
+    return this.files.delete(path);
+  }
+
+  keys(): IterableIterator<string> {
+    return this.files.keys();
+  }
+
+  values(): IterableIterator<SCORMPackageFile> {
+    return this.files.values();
+  }
+
+  get size(): number {
+    return this.files.size;
+  }
+
+  get totalBytes(): number {
+    let total = 0;
+    for (const file of this.files.values()) {
+      total += file.size;
+    }
+    return total;
+  }
+
+  /**
+   * Decode a file as UTF-8 text. The result is cached per file.
+   * @returns The text content, or null if the file does not exist
+   */
+  getText(path: string): string | null {
+    const cached = this.textCache.get(path);
+    if (cached !== undefined) {
+      return cached;
+    }
+
+    const file = this.files.get(path);
+    if (!file) {
+      return null;
+    }
+
+    if (!this.decoder) {
+      this.decoder = new TextDecoder("utf-8");
+    }
+    const text = this.decoder.decode(file.data);
+    this.textCache.set(path, text);
+    return text;
+  }
+
+  /**
+   * Wrap a file in a Blob carrying its content type
+   * @returns The blob, or null if the file does not exist
+   */
+  getBlob(path: string): Blob | null {
+    const file = this.files.get(path);
+    if (!file) {
+      return null;
+    }
+    return new Blob([file.data.slice()], { type: file.contentType });
+  }
+}
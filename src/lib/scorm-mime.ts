@@ -0,0 +1,109 @@
+// MIME type detection for files served out of SCORM packages
+
+const MIME_TYPES: Record<string, string> = {
+  // Documents and markup
+  html: "text/html; charset=utf-8",
+  htm: "text/html; charset=utf-8",
+  xhtml: "application/xhtml+xml",
+  xml: "application/xml",
+  xsd: "application/xml",
+  dtd: "application/xml-dtd",
+  txt: "text/plain; charset=utf-8",
+  csv: "text/csv",
+  pdf: "application/pdf",
+
+  // Scripts and styles
+  js: "text/javascript; charset=utf-8",
+  mjs: "text/javascript; charset=utf-8",
+  json: "application/json",
+  css: "text/css; charset=utf-8",
+  wasm: "application/wasm",
+
+  // Images
+  png: "image/png",
+  jpg: "image/jpeg",
+  jpeg: "image/jpeg",
+  gif: "image/gif",
+  bmp: "image/bmp",
+  svg: "image/svg+xml",
+  webp: "image/webp",
+  ico: "image/x-icon",
+
+  // Fonts
+  woff: "font/woff",
+  woff2: "font/woff2",
+  ttf: "font/ttf",
+  otf: "font/otf",
+  eot: "application/vnd.ms-fontobject",
+
+  // Audio and video
+  mp3: "audio/mpeg",
+  wav: "audio/wav",
+  ogg: "audio/ogg",
+  m4a: "audio/mp4",
+  mp4: "video/mp4",
+  m4v: "video/mp4",
+  webm: "video/webm",
+  ogv: "video/ogg",
+  vtt: "text/vtt",
+
+  // Legacy plugin content
+  swf: "application/x-shockwave-flash",
+  flv: "video/x-flv",
+};
+
+export const DEFAULT_MIME_TYPE = "application/octet-stream";
+
+/**
+ * Resolve the MIME type for a package file from its extension
+ * @param path - File path inside the package
+ * @returns The MIME type, or application/octet-stream when unknown
+ */
+export function getMimeType(path: string): string {
+  const fileName = path.split(/[?#]/)[0].split("/").pop() || "";
+  const dotIndex = fileName.lastIndexOf(".");
+  if (dotIndex === -1) {
+    return DEFAULT_MIME_TYPE;
+  }
+
+  const extension = fileName.substring(dotIndex + 1).toLowerCase();
+  return MIME_TYPES[extension] || DEFAULT_MIME_TYPE;
+}
+
+// Leading bytes of common binary formats, used when the extension is unknown
+const MAGIC_NUMBERS: Array<{ bytes: number[]; mimeType: string }> = [
+  { bytes: [0x89, 0x50, 0x4e, 0x47], mimeType: "image/png" },
+  { bytes: [0xff, 0xd8, 0xff], mimeType: "image/jpeg" },
+  { bytes: [0x47, 0x49, 0x46, 0x38], mimeType: "image/gif" },
+  { bytes: [0x25, 0x50, 0x44, 0x46], mimeType: "application/pdf" },
+  { bytes: [0x46, 0x57, 0x53], mimeType: "application/x-shockwave-flash" },
+  { bytes: [0x43, 0x57, 0x53], mimeType: "application/x-shockwave-flash" },
+  { bytes: [0x49, 0x44, 0x33], mimeType: "audio/mpeg" },
+  { bytes: [0x77, 0x4f, 0x46, 0x46], mimeType: "font/woff" },
+  { bytes: [0x77, 0x4f, 0x46, 0x32], mimeType: "font/woff2" },
+  { bytes: [0x1a, 0x45, 0xdf, 0xa3], mimeType: "video/webm" },
+];
+
+/**
+ * Detect the content type of a package file, falling back to sniffing the
+ * leading bytes when the extension does not identify it
+ * @param path - File path inside the package
+ * @param data - Raw file contents
+ */
+export function detectContentType(path: string, data: Uint8Array): string {
+  const fromExtension = getMimeType(path);
+  if (fromExtension !== DEFAULT_MIME_TYPE) {
+    return fromExtension;
+  }
+
+  for (const { bytes, mimeType } of MAGIC_NUMBERS) {
+    if (
+      data.length >= bytes.length &&
+      bytes.every((byte, index) => data[index] === byte)
+    ) {
+      return mimeType;
+    }
+  }
+
+  return DEFAULT_MIME_TYPE;
+}
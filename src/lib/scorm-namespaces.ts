@@ -0,0 +1,110 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+// SCORM Manifest Namespaces
+// Authoring tools bind the manifest schemas to whatever prefixes they like
+// (ims:, imscp:, ss:, default namespaces, ...). xml2js keeps names as written,
+// so before extraction every element and attribute is renamed to a single
+// canonical prefix per namespace URI.
+
+import { SCORM_NAMESPACES } from "@/lib/scorm-edition";
+
+// IMS CP names are left unprefixed
+const CANONICAL_PREFIXES: Record<string, string> = {
+  [SCORM_NAMESPACES.IMSCP]: "",
+  [SCORM_NAMESPACES.IMSCP_12]: "",
+  [SCORM_NAMESPACES.ADLCP_12]: "adlcp",
+  [SCORM_NAMESPACES.ADLCP_2004]: "adlcp",
+  [SCORM_NAMESPACES.IMSSS]: "imsss",
+  [SCORM_NAMESPACES.ADLSEQ]: "adlseq",
+  [SCORM_NAMESPACES.ADLNAV]: "adlnav",
+};
+
+// Some packages use these prefixes without declaring them; they only apply
+// when the manifest has no binding of its own
+const CONVENTIONAL_PREFIXES: Record<string, string> = {
+  ims: SCORM_NAMESPACES.IMSCP,
+  imscp: SCORM_NAMESPACES.IMSCP,
+  adlcp: SCORM_NAMESPACES.ADLCP_2004,
+  imsss: SCORM_NAMESPACES.IMSSS,
+  adlseq: SCORM_NAMESPACES.ADLSEQ,
+  adlnav: SCORM_NAMESPACES.ADLNAV,
+};
+
+type NamespaceScope = Record<string, string>; // prefix ("" for default) -> namespace URI
+
+/**
+ * Rename the keys of a parsed manifest (xml2js with mergeAttrs) to canonical
+ * prefixes: IMS CP unprefixed, then adlcp:, imsss:, adlseq: and adlnav:.
+ * Names in other namespaces, xmlns declarations and xml: attributes are kept.
+ * @param element - Parsed element, with lowercased names
+ * @param scope - Namespace bindings inherited from the parent element
+ */
+export function normalizeNamespaces(element: any, scope: NamespaceScope = {}): any {
+  if (!element || typeof element !== "object") {
+    return element;
+  }
+
+  const elementScope = withDeclarations(element, scope);
+  const normalized: Record<string, any[]> = {};
+
+  for (const [key, value] of Object.entries(element)) {
+    if (key === "_" || key === "xmlns" || key.startsWith("xmlns:")) {
+      normalized[key] = [value];
+      continue;
+    }
+
+    // Attributes are strings; elements with attributes or children are
+    // objects, and repeated elements are arrays
+    const isElement = Array.isArray(value) || typeof value === "object";
+    for (const child of Array.isArray(value) ? value : [value]) {
+      const childScope = isElement ? withDeclarations(child, elementScope) : elementScope;
+      const name = getCanonicalName(key, isElement, childScope);
+      (normalized[name] ??= []).push(normalizeNamespaces(child, elementScope));
+    }
+  }
+
+  return Object.fromEntries(
+    Object.entries(normalized).map(([key, values]) => [key, values.length === 1 ? values[0] : values])
+  );
+}
+
+function withDeclarations(element: any, scope: NamespaceScope): NamespaceScope {
+  if (!element || typeof element !== "object") {
+    return scope;
+  }
+
+  let declared: NamespaceScope | undefined;
+  for (const [key, value] of Object.entries(element)) {
+    if (typeof value !== "string") continue;
+    if (key === "xmlns") {
+      (declared ??= { ...scope })[""] = value;
+    } else if (key.startsWith("xmlns:")) {
+      (declared ??= { ...scope })[key.substring("xmlns:".length)] = value;
+    }
+  }
+  return declared ?? scope;
+}
+
+function getCanonicalName(key: string, isElement: boolean, scope: NamespaceScope): string {
+  const separator = key.indexOf(":");
+
+  // Unprefixed attributes are in no namespace; unprefixed elements are in the default one
+  if (separator < 0) {
+    const prefix = isElement ? getCanonicalPrefix(scope[""]) : undefined;
+    return prefix ? `${prefix}:${key}` : key;
+  }
+
+  const prefix = key.substring(0, separator);
+  const localName = key.substring(separator + 1);
+  const canonical = getCanonicalPrefix(scope[prefix] ?? CONVENTIONAL_PREFIXES[prefix]);
+  if (canonical === undefined) {
+    return key;
+  }
+  return canonical ? `${canonical}:${localName}` : localName;
+}
+
+function getCanonicalPrefix(namespaceUri: string | undefined): string | undefined {
+  if (!namespaceUri) {
+    return undefined;
+  }
+  return CANONICAL_PREFIXES[namespaceUri.trim().toLowerCase().replace(/\/$/, "")];
+}
@@ -0,0 +1,37 @@
+// SCORM Organization Selection
+// A manifest can define several organizations (e.g. learner tracks) over the
+// same resources. <organizations default="..."> names the one to use unless
+// the host picks another.
+
+import { SCORMManifest, SCORMOrganization } from "@/types/scorm";
+
+/**
+ * The manifest's default organization
+ * @returns The organization named by the default attribute, or the first
+ * organization when the attribute is missing or does not match
+ */
+export function getDefaultOrganization(manifest: SCORMManifest): SCORMOrganization | undefined {
+  return (
+    manifest.organizations.find((org) => org.identifier === manifest.defaultOrganization) ??
+    manifest.organizations[0]
+  );
+}
+
+/**
+ * Select an organization by identifier
+ * @param organizationId - Organization to use; the default organization when omitted
+ * @returns The organization, or undefined if no organization has the identifier
+ */
+export function getOrganization(
+  manifest: SCORMManifest,
+  organizationId?: string
+): SCORMOrganization | undefined {
+  if (!organizationId) {
+    return getDefaultOrganization(manifest);
+  }
+  return manifest.organizations.find((org) => org.identifier === organizationId);
+}
+
+export function isDefaultOrganization(manifest: SCORMManifest, organization: SCORMOrganization): boolean {
+  return getDefaultOrganization(manifest) === organization;
+}
@@ -10,7 +10,15 @@ import {
   SCORMItem,
   SCORMResource,
   SCORMFile,
+  SCORMSequencing,
+  SCORMSequencingCollection,
 } from "@/types/scorm";
+import { createPackageId, getVirtualFileUrl } from "@/lib/scorm-vfs";
+import { SCORMFileStore } from "@/lib/scorm-file-store";
+import { detectSCORMEdition } from "@/lib/scorm-edition";
+import { getDefaultOrganization } from "@/lib/scorm-organization";
+import { normalizeNamespaces } from "@/lib/scorm-namespaces";
+import { isAbsoluteUrl, resolveXmlBase } from "@/lib/scorm-xml-base";
 
 export class SCORMParser {
   private zip: JSZip | null = null;
@@ -189,7 +197,7 @@ export class SCORMParser {
 
     // For hosted content, we don't need to load files locally
     // We'll use direct server URLs instead
-    const files = new Map<string, string>();
+    const files = new SCORMFileStore();
 
     // Only load files that are absolutely necessary for parsing
     // Most content will be loaded directly from server URLs
@@ -221,11 +229,11 @@ export class SCORMParser {
       const manifestContent = await manifestFile.async("text");
       const manifest = await this.parseManifest(manifestContent);
 
-      // Extract all files
-      const files = new Map<string, string>();
+      // Extract all files as raw bytes so media assets are not corrupted
+      const files = new SCORMFileStore();
       for (const [relativePath, zipObject] of Object.entries(this.zip.files)) {
         if (!zipObject.dir) {
-          const content = await zipObject.async("text");
+          const content = await zipObject.async("uint8array");
           files.set(relativePath, content);
         }
       }
@@ -234,6 +242,7 @@ export class SCORMParser {
         manifest,
         files,
         baseUrl,
+        packageId: await createPackageId(manifest.identifier, arrayBuffer),
       };
     } catch (error) {
       const errorMessage =
@@ -254,7 +263,12 @@ export class SCORMParser {
     }
   }
 
-  private async parseManifest(manifestContent: string): Promise<SCORMManifest> {
+  /**
+   * Parse the text of an imsmanifest.xml
+   * @param manifestContent - The manifest XML
+   * @returns Promise<SCORMManifest>
+   */
+  async parseManifest(manifestContent: string): Promise<SCORMManifest> {
     return new Promise((resolve, reject) => {
       parseString(
         manifestContent,
@@ -277,7 +291,8 @@ export class SCORMParser {
               "Raw XML parsing result:",
               JSON.stringify(result, null, 2)
             );
-            const manifest = this.extractManifestFromXML(result);
+            // Element names are matched by namespace, not by the prefixes the package uses
+            const manifest = this.extractManifestFromXML(normalizeNamespaces(result));
             resolve(manifest);
           } catch (error) {
             console.error("Error extracting manifest:", error);
@@ -294,8 +309,6 @@ export class SCORMParser {
 
     if (xml.manifest) {
       manifest = xml.manifest;
-    } else if (xml["ims:manifest"]) {
-      manifest = xml["ims:manifest"];
     } else if (xml.identifier) {
       // The root element might be the manifest itself
       manifest = xml;
@@ -317,13 +330,8 @@ export class SCORMParser {
 
     // Extract organizations
     const organizations: SCORMOrganization[] = [];
-    let orgsElement =
+    const orgsElement =
       manifest.organizations?.organization || manifest.organizations;
-    if (!orgsElement && manifest["ims:organizations"]) {
-      orgsElement =
-        manifest["ims:organizations"]["ims:organization"] ||
-        manifest["ims:organizations"];
-    }
 
     if (orgsElement) {
       const orgArray = Array.isArray(orgsElement) ? orgsElement : [orgsElement];
@@ -331,29 +339,44 @@ export class SCORMParser {
         organizations.push(this.extractOrganization(org));
       }
     }
+    const defaultOrganization: string | undefined =
+      manifest.organizations?.default || undefined;
 
-    // Extract resources
+    // Sequencing shared by organizations and items through IDRef
+    const sequencingCollection = this.extractSequencingCollection(
+      this.getSequencingChild(manifest, "sequencingcollection")
+    );
+    this.resolveSequencingReferences(organizations, sequencingCollection);
+
+    // Extract resources; xml:base on <manifest> and <resources> relocates all of them
     const resources: SCORMResource[] = [];
-    let resourcesElement = manifest.resources?.resource || manifest.resources;
-    if (!resourcesElement && manifest["ims:resources"]) {
-      resourcesElement =
-        manifest["ims:resources"]["ims:resource"] || manifest["ims:resources"];
-    }
+    const resourcesBase = resolveXmlBase(
+      resolveXmlBase(undefined, manifest["xml:base"]),
+      manifest.resources?.["xml:base"]
+    );
+    const resourcesElement = manifest.resources?.resource || manifest.resources;
 
     if (resourcesElement) {
       const resourceArray = Array.isArray(resourcesElement)
         ? resourcesElement
         : [resourcesElement];
       for (const resource of resourceArray) {
-        resources.push(this.extractResource(resource));
+        resources.push(this.extractResource(resource, resourcesBase));
       }
     }
 
     // Extract metadata
-    const metadata =
-      manifest.metadata?.[0] ||
-      manifest["ims:metadata"]?.[0] ||
-      manifest.metadata;
+    const metadata = manifest.metadata?.[0] || manifest.metadata;
+
+    // Determine the SCORM edition from schemaversion and declared namespaces
+    const namespaces = this.extractNamespaces(manifest);
+    const schema = this.extractText(metadata?.schema);
+    const schemaversion = this.extractText(metadata?.schemaversion);
+    const schemaLocation: string = manifest["xsi:schemalocation"] || "";
+    const edition = detectSCORMEdition(schemaversion, [
+      ...Object.values(namespaces),
+      ...schemaLocation.split(/\s+/).filter((token) => token.includes("://")),
+    ]);
 
     let title = this.extractTitle(manifest);
     console.log("Extracted manifest title:", title);
@@ -376,21 +399,50 @@ export class SCORMParser {
       version,
       title,
       description: this.extractDescription(manifest),
+      schema,
+      schemaversion,
+      edition,
+      namespaces,
       organizations,
+      defaultOrganization,
       resources,
       metadata,
+      sequencingCollection,
     };
   }
 
+  private extractNamespaces(manifest: any): Record<string, string> {
+    const namespaces: Record<string, string> = {};
+    for (const [key, value] of Object.entries(manifest)) {
+      if (typeof value !== "string") continue;
+      if (key === "xmlns") {
+        namespaces[""] = value;
+      } else if (key.startsWith("xmlns:")) {
+        namespaces[key.substring("xmlns:".length)] = value;
+      }
+    }
+    return namespaces;
+  }
+
+  private extractText(element: any): string | undefined {
+    if (Array.isArray(element)) {
+      element = element[0];
+    }
+    if (typeof element === "string") {
+      return element.trim();
+    }
+    if (element && typeof element._ === "string") {
+      return element._.trim();
+    }
+    return undefined;
+  }
+
   private extractOrganization(orgElement: any): SCORMOrganization {
     // With mergeAttrs: true, attributes are merged into the element
     const identifier = orgElement.identifier || orgElement.$?.identifier || "";
     const items: SCORMItem[] = [];
 
-    let itemsElement = orgElement.item;
-    if (!itemsElement && orgElement["ims:item"]) {
-      itemsElement = orgElement["ims:item"];
-    }
+    const itemsElement = orgElement.item;
 
     if (itemsElement) {
       const itemArray = Array.isArray(itemsElement)
@@ -401,10 +453,17 @@ export class SCORMParser {
       }
     }
 
+    // Organization-level sequencing governs the root of the activity tree
+    const sequencing = this.extractSequencing(this.getSequencingChild(orgElement, "sequencing"));
+
     return {
       identifier,
       title: this.extractTitle(orgElement),
+      objectivesGlobalToSystem: this.parseBoolean(
+        orgElement["adlseq:objectivesglobaltosystem"] ?? orgElement.objectivesglobaltosystem
+      ),
       items,
+      sequencing,
     };
   }
 
@@ -418,10 +477,7 @@ export class SCORMParser {
     const parameters = itemElement.parameters || itemElement.$?.parameters;
     const items: SCORMItem[] = [];
 
-    let subItemsElement = itemElement.item;
-    if (!subItemsElement && itemElement["ims:item"]) {
-      subItemsElement = itemElement["ims:item"];
-    }
+    const subItemsElement = itemElement.item;
 
     if (subItemsElement) {
       const itemArray = Array.isArray(subItemsElement)
@@ -433,15 +489,18 @@ export class SCORMParser {
     }
 
     // Extract sequencing information (SCORM 2004)
-    const sequencing = this.extractSequencing(itemElement.sequencing || itemElement["imsss:sequencing"]);
+    const sequencing = this.extractSequencing(this.getSequencingChild(itemElement, "sequencing"));
     
     // Extract presentation information
-    const presentation = this.extractPresentation(itemElement.presentation);
+    const presentation = this.extractPresentation(this.getNavigationChild(itemElement, "presentation"));
 
-    // Extract mastery score and time limits
-    const mastery_score = itemElement.mastery_score ? parseFloat(itemElement.mastery_score) : undefined;
-    const max_time_allowed = itemElement.max_time_allowed || itemElement.maxtimeallowed;
-    const time_limit_action = itemElement.time_limit_action || itemElement.timelimitaction;
+    // Extract mastery score and time limits (adlcp: elements in SCORM 1.2)
+    const masteryScore = this.extractText(itemElement["adlcp:masteryscore"]) ?? itemElement.mastery_score;
+    const mastery_score = masteryScore ? parseFloat(masteryScore) : undefined;
+    const max_time_allowed =
+      this.extractText(itemElement["adlcp:maxtimeallowed"]) ?? (itemElement.max_time_allowed || itemElement.maxtimeallowed);
+    const time_limit_action =
+      this.extractText(itemElement["adlcp:timelimitaction"]) ?? (itemElement.time_limit_action || itemElement.timelimitaction);
 
     return {
       identifier,
@@ -458,22 +517,19 @@ export class SCORMParser {
     };
   }
 
-  private extractResource(resourceElement: any): SCORMResource {
+  private extractResource(resourceElement: any, parentBase: string): SCORMResource {
     // With mergeAttrs: true, attributes are merged into the element
     const identifier =
       resourceElement.identifier || resourceElement.$?.identifier || "";
     const type = resourceElement.type || resourceElement.$?.type || "";
     const href = resourceElement.href || resourceElement.$?.href || "";
-    const base = resourceElement.base || resourceElement.$?.base;
     const scormType = resourceElement.scormtype || resourceElement["adlcp:scormtype"];
-    const xmlBase = resourceElement.xmlbase || resourceElement["xml:base"];
+    const xmlBase: string | undefined = resourceElement["xml:base"];
+    const base = resolveXmlBase(parentBase, xmlBase) || undefined;
     const files: SCORMFile[] = [];
     const dependencies: any[] = [];
 
-    let filesElement = resourceElement.file;
-    if (!filesElement && resourceElement["ims:file"]) {
-      filesElement = resourceElement["ims:file"];
-    }
+    const filesElement = resourceElement.file;
 
     if (filesElement) {
       const fileArray = Array.isArray(filesElement)
@@ -490,10 +546,7 @@ export class SCORMParser {
     }
 
     // Extract dependencies
-    let dependencyElement = resourceElement.dependency;
-    if (!dependencyElement && resourceElement["ims:dependency"]) {
-      dependencyElement = resourceElement["ims:dependency"];
-    }
+    const dependencyElement = resourceElement.dependency;
 
     if (dependencyElement) {
       const depArray = Array.isArray(dependencyElement)
@@ -523,17 +576,12 @@ export class SCORMParser {
     console.log("Extracting title from element:", element);
 
     let titleElement = element.title;
-    if (!titleElement && element["ims:title"]) {
-      titleElement = element["ims:title"];
-    }
 
     // Also check for title in metadata
     if (!titleElement && element.metadata) {
       const metadata = element.metadata;
       if (metadata.title) {
         titleElement = metadata.title;
-      } else if (metadata["ims:title"]) {
-        titleElement = metadata["ims:title"];
       } else if (
         metadata.lom &&
         metadata.lom.general &&
@@ -628,9 +676,6 @@ export class SCORMParser {
 
   private extractDescription(element: any): string {
     let descriptionElement = element.description;
-    if (!descriptionElement && element["ims:description"]) {
-      descriptionElement = element["ims:description"];
-    }
 
     if (descriptionElement) {
       if (Array.isArray(descriptionElement)) {
@@ -654,8 +699,11 @@ export class SCORMParser {
     );
     console.log("Available files:", Array.from(packageData.files.keys()));
 
-    // Find the first organization's first item with an identifierref
-    for (const org of packageData.manifest.organizations) {
+    // Find the first item with an identifierref, starting with the default
+    // organization
+    const defaultOrganization = getDefaultOrganization(packageData.manifest);
+    const organizations = packageData.manifest.organizations.filter((org) => org !== defaultOrganization);
+    for (const org of defaultOrganization ? [defaultOrganization, ...organizations] : organizations) {
       console.log("Checking organization:", org.title);
       const entryPoint = this.findEntryPointInItems(org.items, packageData);
       if (entryPoint) {
@@ -695,7 +743,7 @@ export class SCORMParser {
           console.log("Resource files:", resource.files);
 
           if (resource.files.length > 0) {
-            const entryPoint = resource.files[0].href;
+            const entryPoint = resolveXmlBase(resource.base, resource.files[0].href);
             console.log("Checking if entry point exists:", entryPoint);
 
             // Check if the file exists in the package
@@ -727,6 +775,63 @@ export class SCORMParser {
     return null;
   }
 
+  /**
+   * Resolve the launch URL of an item through its identifierref
+   * @param item - An item from an organization's activity tree
+   * @returns The URL with the item's parameters applied, or null if the item
+   * does not reference a launchable resource
+   */
+  public getItemLaunchUrl(
+    packageData: SCORMPackage,
+    item: SCORMItem
+  ): string | null {
+    const resource = this.getItemResource(packageData, item);
+    const href = resource?.href || resource?.files[0]?.href;
+    if (!href) {
+      return null;
+    }
+
+    return this.getResourceUrl(
+      packageData,
+      this.applyItemParameters(resolveXmlBase(resource.base, href), item.parameters)
+    );
+  }
+
+  /**
+   * Find the resource an item launches
+   * @returns The resource, or null if the item has no identifierref or the
+   * resource has nothing to launch
+   */
+  public getItemResource(
+    packageData: SCORMPackage,
+    item: SCORMItem
+  ): SCORMResource | null {
+    if (!item.identifierref) {
+      return null;
+    }
+
+    const resource = this.findResourceByIdentifier(item.identifierref, packageData);
+    return resource && (resource.href || resource.files.length > 0) ? resource : null;
+  }
+
+  /**
+   * Append an item's parameters to a launch href as described by the content
+   * packaging specification: a leading "?" is merged with an existing query
+   * string and a fragment is appended as is.
+   */
+  private applyItemParameters(href: string, parameters?: string): string {
+    const trimmed = parameters?.trim();
+    if (!trimmed) {
+      return href;
+    }
+    if (trimmed.startsWith("#")) {
+      return href.includes("#") ? href : href + trimmed;
+    }
+
+    const query = trimmed.replace(/^[?&]+/, "");
+    return href + (href.includes("?") ? "&" : "?") + query;
+  }
+
   public findResourceByIdentifier(
     identifier: string,
     packageData: SCORMPackage
@@ -808,7 +913,14 @@ export class SCORMParser {
     if (packageData.files.size === 0) {
       return null;
     }
-    return packageData.files.get(resourcePath) || null;
+    return packageData.files.getText(resourcePath);
+  }
+
+  public getResourceBlob(
+    packageData: SCORMPackage,
+    resourcePath: string
+  ): Blob | null {
+    return packageData.files.getBlob(resourcePath);
   }
 
   public getResourceUrl(
@@ -822,7 +934,17 @@ export class SCORMParser {
 
     // Normalize the resource path
     const normalizedPath = resourcePath.replace(/\\/g, '/').trim();
-    
+
+    // An absolute xml:base points outside the package
+    if (isAbsoluteUrl(normalizedPath)) {
+      return normalizedPath;
+    }
+
+    // Zip packages are served from the service worker virtual file system
+    if (packageData.packageId) {
+      return getVirtualFileUrl(packageData.packageId, normalizedPath);
+    }
+
     if (packageData.baseUrl) {
       // For hosted content, construct the full URL
       const baseUrl = packageData.baseUrl.endsWith("/")
@@ -854,7 +976,7 @@ export class SCORMParser {
       }
     }
 
-    // For local content, return normalized path
+    // For content without a base URL, return normalized path
     return normalizedPath;
   }
 
@@ -1001,21 +1123,102 @@ export class SCORMParser {
       return undefined;
     }
 
+    const child = (name: string) => this.getSequencingChild(sequencingElement, name);
     return {
       id: sequencingElement.id || sequencingElement.$?.id,
-      controlMode: this.extractControlMode(sequencingElement.controlmode || sequencingElement.controlMode),
-      sequencingRules: this.extractSequencingRules(sequencingElement.sequencingrules || sequencingElement.sequencingRules),
-      limitConditions: this.extractLimitConditions(sequencingElement.limitconditions || sequencingElement.limitConditions),
-      auxiliaryResources: this.extractAuxiliaryResources(sequencingElement.auxiliaryresources || sequencingElement.auxiliaryResources),
-      rollupRules: this.extractRollupRules(sequencingElement.rolluprules || sequencingElement.rollupRules),
-      objectives: this.extractObjectives(sequencingElement.objectives),
-      randomizationControls: this.extractRandomizationControls(sequencingElement.randomizationcontrols || sequencingElement.randomizationControls),
-      deliveryControls: this.extractDeliveryControls(sequencingElement.deliverycontrols || sequencingElement.deliveryControls),
-      constrainedChoiceConsiderations: this.extractConstrainedChoiceConsiderations(sequencingElement.constrainedchoiceconsiderations),
-      rollupConsiderations: this.extractRollupConsiderations(sequencingElement.rollupconsiderations),
+      idRef: sequencingElement.idref || sequencingElement.$?.idref,
+      controlMode: this.extractControlMode(child("controlmode")),
+      sequencingRules: this.extractSequencingRules(child("sequencingrules")),
+      limitConditions: this.extractLimitConditions(child("limitconditions")),
+      auxiliaryResources: this.extractAuxiliaryResources(child("auxiliaryresources")),
+      rollupRules: this.extractRollupRules(child("rolluprules")),
+      objectives: this.extractObjectives(child("objectives")),
+      randomizationControls: this.extractRandomizationControls(child("randomizationcontrols")),
+      deliveryControls: this.extractDeliveryControls(child("deliverycontrols")),
+      constrainedChoiceConsiderations: this.extractConstrainedChoiceConsiderations(child("constrainedchoiceconsiderations")),
+      rollupConsiderations: this.extractRollupConsiderations(child("rollupconsiderations")),
     };
   }
 
+  private extractSequencingCollection(collectionElement: any): SCORMSequencingCollection | undefined {
+    if (!collectionElement) {
+      return undefined;
+    }
+
+    const sequencingElement = this.getSequencingChild(collectionElement, "sequencing");
+    const sequencingArray = !sequencingElement
+      ? []
+      : Array.isArray(sequencingElement)
+        ? sequencingElement
+        : [sequencingElement];
+    return {
+      sequencing: sequencingArray.map((sequencing) => this.extractSequencing(sequencing)),
+    };
+  }
+
+  // Replaces each IDRef with the referenced collection entry combined with the
+  // elements defined locally, so the engine only sees complete definitions
+  private resolveSequencingReferences(
+    organizations: SCORMOrganization[],
+    collection: SCORMSequencingCollection | undefined
+  ): void {
+    const definitions = new Map<string, SCORMSequencing>();
+    for (const sequencing of collection?.sequencing || []) {
+      if (sequencing.id) {
+        definitions.set(sequencing.id, sequencing);
+      }
+    }
+
+    const resolve = (sequencing: SCORMSequencing | undefined, owner: string) => {
+      if (!sequencing?.idRef) {
+        return sequencing;
+      }
+      const referenced = definitions.get(sequencing.idRef);
+      if (!referenced) {
+        console.warn(
+          `[SCORMParser] Sequencing IDRef ${sequencing.idRef} on ${owner} does not match any sequencingCollection entry`
+        );
+        return sequencing;
+      }
+      return this.mergeSequencing(referenced, sequencing);
+    };
+    const resolveItems = (items: SCORMItem[]) => {
+      for (const item of items) {
+        item.sequencing = resolve(item.sequencing, item.identifier);
+        resolveItems(item.item || []);
+      }
+    };
+
+    for (const organization of organizations) {
+      organization.sequencing = resolve(organization.sequencing, organization.identifier);
+      resolveItems(organization.items);
+    }
+  }
+
+  // A locally defined element (controlMode, sequencingRules, objectives, ...)
+  // replaces the same element of the referenced definition as a whole
+  private mergeSequencing(referenced: SCORMSequencing, local: SCORMSequencing): SCORMSequencing {
+    const merged: any = { ...structuredClone(referenced), id: local.id, idRef: local.idRef };
+    for (const [key, value] of Object.entries(local)) {
+      if (key === "id" || key === "idRef") continue;
+      const defined = Array.isArray(value) ? value.length > 0 : value !== undefined;
+      if (defined) {
+        merged[key] = value;
+      }
+    }
+    return merged;
+  }
+
+  // Sequencing elements carry the canonical imsss: prefix (adlseq: for the ADL
+  // extensions); text-only elements in a default namespace stay unprefixed
+  private getSequencingChild(element: any, name: string): any {
+    return element?.[name] ?? element?.[`imsss:${name}`] ?? element?.[`adlseq:${name}`];
+  }
+
+  private getNavigationChild(element: any, name: string): any {
+    return element?.[`adlnav:${name}`] ?? element?.[name];
+  }
+
   private extractControlMode(controlModeElement: any): any {
     if (!controlModeElement) {
       return undefined;
@@ -1037,9 +1240,9 @@ export class SCORMParser {
     }
 
     return {
-      preConditionRule: this.extractRules(rulesElement.preconditionrule || rulesElement.preConditionRule),
-      exitConditionRule: this.extractRules(rulesElement.exitconditionrule || rulesElement.exitConditionRule),
-      postConditionRule: this.extractRules(rulesElement.postconditionrule || rulesElement.postConditionRule),
+      preConditionRule: this.extractRules(this.getSequencingChild(rulesElement, "preconditionrule")),
+      exitConditionRule: this.extractRules(this.getSequencingChild(rulesElement, "exitconditionrule")),
+      postConditionRule: this.extractRules(this.getSequencingChild(rulesElement, "postconditionrule")),
     };
   }
 
@@ -1048,12 +1251,17 @@ export class SCORMParser {
       return [];
     }
 
+    // <ruleConditions conditionCombination="..."><ruleCondition .../></ruleConditions>
+    // <ruleAction action="..."/>
     const rulesArray = Array.isArray(rulesElement) ? rulesElement : [rulesElement];
-    return rulesArray.map(rule => ({
-      conditionCombination: rule.conditioncombination || rule.conditionCombination || "all",
-      action: rule.action,
-      ruleConditions: this.extractRuleConditions(rule.ruleconditions || rule.ruleConditions),
-    }));
+    return rulesArray.map(rule => {
+      const conditions = this.getSequencingChild(rule, "ruleconditions");
+      return {
+        conditionCombination: conditions?.conditioncombination || "all",
+        action: this.getSequencingChild(rule, "ruleaction")?.action,
+        ruleConditions: this.extractRuleConditions(this.getSequencingChild(conditions, "rulecondition")),
+      };
+    });
   }
 
   private extractRuleConditions(conditionsElement: any): any[] {
@@ -1066,7 +1274,7 @@ export class SCORMParser {
       condition: condition.condition,
       operator: condition.operator,
       measureThreshold: condition.measurethreshold ? parseFloat(condition.measurethreshold) : undefined,
-      referenceObjective: condition.referenceobjective || condition.referenceObjective,
+      referenceObjective: condition.referencedobjective,
     }));
   }
 
@@ -1105,7 +1313,12 @@ export class SCORMParser {
     }
 
     return {
-      rollupRule: this.extractRollupRuleArray(rollupElement.rolluprule || rollupElement.rollupRule),
+      rollupObjectiveSatisfied: this.parseBoolean(rollupElement.rollupobjectivesatisfied),
+      rollupProgressCompletion: this.parseBoolean(rollupElement.rollupprogresscompletion),
+      objectiveMeasureWeight: rollupElement.objectivemeasureweight
+        ? parseFloat(rollupElement.objectivemeasureweight)
+        : undefined,
+      rollupRule: this.extractRollupRuleArray(this.getSequencingChild(rollupElement, "rolluprule")),
     };
   }
 
@@ -1114,14 +1327,24 @@ export class SCORMParser {
       return [];
     }
 
+    // <rollupRule childActivitySet="..." minimumCount="..." minimumPercent="...">
+    //   <rollupConditions conditionCombination="..."><rollupCondition .../></rollupConditions>
+    //   <rollupAction action="..."/>
+    // </rollupRule>
     const rulesArray = Array.isArray(rulesElement) ? rulesElement : [rulesElement];
-    return rulesArray.map(rule => ({
-      objectiveRollup: this.parseBoolean(rule.objectiverollup || rule.objectiveRollup),
-      measureRollup: this.parseBoolean(rule.measurerollup || rule.measureRollup),
-      action: rule.action,
-      conditionCombination: rule.conditioncombination || rule.conditionCombination || "all",
-      conditions: this.extractRuleConditions(rule.conditions),
-    }));
+    return rulesArray.map(rule => {
+      const conditions = this.getSequencingChild(rule, "rollupconditions");
+      return {
+        objectiveRollup: this.parseBoolean(rule.objectiverollup),
+        measureRollup: this.parseBoolean(rule.measurerollup),
+        childActivitySet: rule.childactivityset || "all",
+        minimumCount: rule.minimumcount ? parseInt(rule.minimumcount) : undefined,
+        minimumPercent: rule.minimumpercent ? parseFloat(rule.minimumpercent) : undefined,
+        action: this.getSequencingChild(rule, "rollupaction")?.action,
+        conditionCombination: conditions?.conditioncombination || "any",
+        conditions: this.extractRuleConditions(this.getSequencingChild(conditions, "rollupcondition")),
+      };
+    });
   }
 
   private extractObjectives(objectivesElement: any): any {
@@ -1130,8 +1353,8 @@ export class SCORMParser {
     }
 
     return {
-      primaryObjective: this.extractObjective(objectivesElement.primaryobjective || objectivesElement.primaryObjective),
-      objective: this.extractObjectiveArray(objectivesElement.objective),
+      primaryObjective: this.extractObjective(this.getSequencingChild(objectivesElement, "primaryobjective")),
+      objective: this.extractObjectiveArray(this.getSequencingChild(objectivesElement, "objective")),
     };
   }
 
@@ -1140,11 +1363,15 @@ export class SCORMParser {
       return undefined;
     }
 
+    // <minNormalizedMeasure> is a child element, not an attribute
+    const minNormalizedMeasure = this.extractText(
+      this.getSequencingChild(objElement, "minnormalizedmeasure")
+    );
     return {
-      objectiveID: objElement.objectiveid || objElement.objectiveID,
-      satisfiedByMeasure: this.parseBoolean(objElement.satisfiedbymeasure || objElement.satisfiedByMeasure),
-      minNormalizedMeasure: objElement.minneasure ? parseFloat(objElement.minneasure) : undefined,
-      mapInfo: this.extractMapInfo(objElement.mapinfo || objElement.mapInfo),
+      objectiveID: objElement.objectiveid,
+      satisfiedByMeasure: this.parseBoolean(objElement.satisfiedbymeasure),
+      minNormalizedMeasure: minNormalizedMeasure ? parseFloat(minNormalizedMeasure) : undefined,
+      mapInfo: this.extractMapInfo(this.getSequencingChild(objElement, "mapinfo")),
     };
   }
 
@@ -1164,11 +1391,11 @@ export class SCORMParser {
 
     const mapArray = Array.isArray(mapElement) ? mapElement : [mapElement];
     return mapArray.map(map => ({
-      targetObjectiveID: map.targetobjectiveid || map.targetObjectiveID,
-      readSatisfiedStatus: this.parseBoolean(map.readsatisfiedstatus || map.readSatisfiedStatus),
-      readNormalizedMeasure: this.parseBoolean(map.readnormalizedmeasure || map.readNormalizedMeasure),
-      writeSatisfiedStatus: this.parseBoolean(map.writesatisfiedstatus || map.writeSatisfiedStatus),
-      writeNormalizedMeasure: this.parseBoolean(map.writenormalizedmeasure || map.writeNormalizedMeasure),
+      targetObjectiveID: map.targetobjectiveid,
+      readSatisfiedStatus: this.parseBoolean(map.readsatisfiedstatus),
+      readNormalizedMeasure: this.parseBoolean(map.readnormalizedmeasure),
+      writeSatisfiedStatus: this.parseBoolean(map.writesatisfiedstatus),
+      writeNormalizedMeasure: this.parseBoolean(map.writenormalizedmeasure),
     }));
   }
 
@@ -1228,7 +1455,7 @@ export class SCORMParser {
     }
 
     return {
-      navigationInterface: this.extractNavigationInterface(presentationElement.navigationinterface || presentationElement.navigationInterface),
+      navigationInterface: this.extractNavigationInterface(this.getNavigationChild(presentationElement, "navigationinterface")),
     };
   }
 
@@ -1237,7 +1464,7 @@ export class SCORMParser {
       return undefined;
     }
 
-    const hideLMSUI = navElement.hidelmsui || navElement.hideLMSUI;
+    const hideLMSUI = this.getNavigationChild(navElement, "hidelmsui");
     return {
       hideLMSUI: hideLMSUI ? (Array.isArray(hideLMSUI) ? hideLMSUI : [hideLMSUI]) : undefined,
     };
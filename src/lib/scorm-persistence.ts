@@ -0,0 +1,432 @@
+// SCORM Attempt Persistence
+// Adapters that store learner attempt data (the CMI data model) between
+// sessions. The runtime API loads an attempt before content launches, saves it
+// on Commit and finishes it on Terminate. Adapters may also store SCORM 2004
+// sequencing state for the course attempt and global shared objectives,
+// which outlive a single attempt.
+
+import { SCORMDataModel, SCORMVersion } from "@/types/scorm";
+import { ObjectiveState, SequencingStateSnapshot } from "@/lib/scorm-sequencing-correct";
+
+export interface SCORMAttemptKey {
+  courseId: string; // Usually the manifest identifier
+  learnerId: string;
+  scoId?: string; // Item identifier for multi-SCO packages
+}
+
+export type SCORMAttemptStatus = "active" | "finished";
+
+export interface SCORMAttemptData {
+  version: SCORMVersion;
+  status: SCORMAttemptStatus;
+  dataModel: SCORMDataModel;
+  updatedAt: string; // ISO 8601 timestamp
+}
+
+export interface SCORMSequencingStateData {
+  state: SequencingStateSnapshot; // From SCORMSequencingEngine.exportState
+  updatedAt: string; // ISO 8601 timestamp
+}
+
+export interface SCORMObjectivesKey {
+  learnerId: string;
+  courseId?: string; // Omitted when objectives are global to the system
+}
+
+export interface SCORMGlobalObjectivesData {
+  objectives: Record<string, ObjectiveState>; // Keyed by target objective ID
+  updatedAt: string; // ISO 8601 timestamp
+}
+
+export interface SCORMPersistenceAdapter {
+  /**
+   * Load the stored attempt for a learner
+   * @returns The attempt, or null if the learner has none yet
+   */
+  loadAttempt(key: SCORMAttemptKey): Promise<SCORMAttemptData | null>;
+  /** Store the current state of an attempt (called on Commit) */
+  saveAttempt(key: SCORMAttemptKey, data: SCORMAttemptData): Promise<void>;
+  /** Store the final state of an attempt (called on Terminate) */
+  finishAttempt(key: SCORMAttemptKey, data: SCORMAttemptData): Promise<void>;
+  /**
+   * Load the sequencing state of a learner's course attempt (key without scoId)
+   * @returns The state, or null if none is stored yet
+   */
+  loadSequencingState?(key: SCORMAttemptKey): Promise<SCORMSequencingStateData | null>;
+  /** Store the sequencing state of a learner's course attempt (called while it is suspended) */
+  saveSequencingState?(key: SCORMAttemptKey, data: SCORMSequencingStateData): Promise<void>;
+  /** Remove the sequencing state of a course attempt that ended without being suspended */
+  clearSequencingState?(key: SCORMAttemptKey): Promise<void>;
+  /**
+   * Load the global shared objectives for a learner
+   * @returns The objectives, or null if none are stored yet
+   */
+  loadGlobalObjectives?(key: SCORMObjectivesKey): Promise<SCORMGlobalObjectivesData | null>;
+  /** Store the global shared objectives for a learner */
+  saveGlobalObjectives?(key: SCORMObjectivesKey, data: SCORMGlobalObjectivesData): Promise<void>;
+}
+
+/**
+ * Build a single string key for an attempt, used by the browser storage adapters
+ */
+export function getAttemptStorageKey(key: SCORMAttemptKey, prefix = "scorm-attempt"): string {
+  return [prefix, key.courseId, key.learnerId, key.scoId || ""]
+    .map(encodeURIComponent)
+    .join(":");
+}
+
+/**
+ * Build a single string key for a learner's global objectives
+ */
+export function getObjectivesStorageKey(key: SCORMObjectivesKey, prefix = "scorm-objectives"): string {
+  return [prefix, key.learnerId, key.courseId || ""]
+    .map(encodeURIComponent)
+    .join(":");
+}
+
+export class SCORMLocalStorageAdapter implements SCORMPersistenceAdapter {
+  private prefix: string;
+
+  constructor(prefix = "scorm-attempt") {
+    this.prefix = prefix;
+  }
+
+  // Sequencing state and objectives are stored under keys derived from the
+  // adapter's prefix, so adapters with different prefixes stay separate
+  private get sequencingPrefix(): string {
+    return `${this.prefix}-sequencing`;
+  }
+
+  private get objectivesPrefix(): string {
+    return `${this.prefix}-objectives`;
+  }
+
+  async loadAttempt(key: SCORMAttemptKey): Promise<SCORMAttemptData | null> {
+    const stored = window.localStorage.getItem(getAttemptStorageKey(key, this.prefix));
+    if (!stored) {
+      return null;
+    }
+
+    try {
+      return JSON.parse(stored) as SCORMAttemptData;
+    } catch (error) {
+      console.warn("[SCORM Persistence] Ignoring unreadable attempt data:", error);
+      return null;
+    }
+  }
+
+  async saveAttempt(key: SCORMAttemptKey, data: SCORMAttemptData): Promise<void> {
+    window.localStorage.setItem(
+      getAttemptStorageKey(key, this.prefix),
+      JSON.stringify(data)
+    );
+  }
+
+  async finishAttempt(key: SCORMAttemptKey, data: SCORMAttemptData): Promise<void> {
+    await this.saveAttempt(key, data);
+  }
+
+  async loadSequencingState(key: SCORMAttemptKey): Promise<SCORMSequencingStateData | null> {
+    const stored = window.localStorage.getItem(getAttemptStorageKey(key, this.sequencingPrefix));
+    if (!stored) {
+      return null;
+    }
+
+    try {
+      return JSON.parse(stored) as SCORMSequencingStateData;
+    } catch (error) {
+      console.warn("[SCORM Persistence] Ignoring unreadable sequencing state:", error);
+      return null;
+    }
+  }
+
+  async saveSequencingState(key: SCORMAttemptKey, data: SCORMSequencingStateData): Promise<void> {
+    window.localStorage.setItem(getAttemptStorageKey(key, this.sequencingPrefix), JSON.stringify(data));
+  }
+
+  async clearSequencingState(key: SCORMAttemptKey): Promise<void> {
+    window.localStorage.removeItem(getAttemptStorageKey(key, this.sequencingPrefix));
+  }
+
+  async loadGlobalObjectives(key: SCORMObjectivesKey): Promise<SCORMGlobalObjectivesData | null> {
+    const stored = window.localStorage.getItem(getObjectivesStorageKey(key, this.objectivesPrefix));
+    if (!stored) {
+      return null;
+    }
+
+    try {
+      return JSON.parse(stored) as SCORMGlobalObjectivesData;
+    } catch (error) {
+      console.warn("[SCORM Persistence] Ignoring unreadable objectives data:", error);
+      return null;
+    }
+  }
+
+  async saveGlobalObjectives(key: SCORMObjectivesKey, data: SCORMGlobalObjectivesData): Promise<void> {
+    window.localStorage.setItem(getObjectivesStorageKey(key, this.objectivesPrefix), JSON.stringify(data));
+  }
+}
+
+export class SCORMIndexedDBAdapter implements SCORMPersistenceAdapter {
+  private static readonly STORE_NAME = "attempts";
+  private static readonly OBJECTIVES_STORE_NAME = "objectives";
+  private static readonly SEQUENCING_STORE_NAME = "sequencing";
+  private databaseName: string;
+  private database: Promise<IDBDatabase> | null = null;
+
+  constructor(databaseName = "scorm-attempts") {
+    this.databaseName = databaseName;
+  }
+
+  async loadAttempt(key: SCORMAttemptKey): Promise<SCORMAttemptData | null> {
+    const store = await this.getStore("readonly");
+    const result = await this.request<SCORMAttemptData | undefined>(
+      store.get(getAttemptStorageKey(key))
+    );
+    return result ?? null;
+  }
+
+  async saveAttempt(key: SCORMAttemptKey, data: SCORMAttemptData): Promise<void> {
+    const store = await this.getStore("readwrite");
+    await this.request(store.put(data, getAttemptStorageKey(key)));
+  }
+
+  async finishAttempt(key: SCORMAttemptKey, data: SCORMAttemptData): Promise<void> {
+    await this.saveAttempt(key, data);
+  }
+
+  async loadSequencingState(key: SCORMAttemptKey): Promise<SCORMSequencingStateData | null> {
+    const store = await this.getStore("readonly", SCORMIndexedDBAdapter.SEQUENCING_STORE_NAME);
+    const result = await this.request<SCORMSequencingStateData | undefined>(
+      store.get(getAttemptStorageKey(key))
+    );
+    return result ?? null;
+  }
+
+  async saveSequencingState(key: SCORMAttemptKey, data: SCORMSequencingStateData): Promise<void> {
+    const store = await this.getStore("readwrite", SCORMIndexedDBAdapter.SEQUENCING_STORE_NAME);
+    await this.request(store.put(data, getAttemptStorageKey(key)));
+  }
+
+  async clearSequencingState(key: SCORMAttemptKey): Promise<void> {
+    const store = await this.getStore("readwrite", SCORMIndexedDBAdapter.SEQUENCING_STORE_NAME);
+    await this.request(store.delete(getAttemptStorageKey(key)));
+  }
+
+  async loadGlobalObjectives(key: SCORMObjectivesKey): Promise<SCORMGlobalObjectivesData | null> {
+    const store = await this.getStore("readonly", SCORMIndexedDBAdapter.OBJECTIVES_STORE_NAME);
+    const result = await this.request<SCORMGlobalObjectivesData | undefined>(
+      store.get(getObjectivesStorageKey(key))
+    );
+    return result ?? null;
+  }
+
+  async saveGlobalObjectives(key: SCORMObjectivesKey, data: SCORMGlobalObjectivesData): Promise<void> {
+    const store = await this.getStore("readwrite", SCORMIndexedDBAdapter.OBJECTIVES_STORE_NAME);
+    await this.request(store.put(data, getObjectivesStorageKey(key)));
+  }
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.database) {
+      this.database = new Promise((resolve, reject) => {
+        // Version 2 added the objectives store, version 3 the sequencing store
+        const openRequest = indexedDB.open(this.databaseName, 3);
+        openRequest.onupgradeneeded = () => {
+          const database = openRequest.result;
+          for (const storeName of [
+            SCORMIndexedDBAdapter.STORE_NAME,
+            SCORMIndexedDBAdapter.OBJECTIVES_STORE_NAME,
+            SCORMIndexedDBAdapter.SEQUENCING_STORE_NAME,
+          ]) {
+            if (!database.objectStoreNames.contains(storeName)) {
+              database.createObjectStore(storeName);
+            }
+          }
+        };
+        openRequest.onsuccess = () => resolve(openRequest.result);
+        openRequest.onerror = () => {
+          this.database = null;
+          reject(openRequest.error);
+        };
+      });
+    }
+    return this.database;
+  }
+
+  private async getStore(
+    mode: IDBTransactionMode,
+    storeName = SCORMIndexedDBAdapter.STORE_NAME
+  ): Promise<IDBObjectStore> {
+    const database = await this.open();
+    return database.transaction(storeName, mode).objectStore(storeName);
+  }
+
+  private request<T>(request: IDBRequest): Promise<T> {
+    return new Promise((resolve, reject) => {
+      request.onsuccess = () => resolve(request.result as T);
+      request.onerror = () => reject(request.error);
+    });
+  }
+}
+
+export interface SCORMHttpAdapterOptions {
+  headers?: Record<string, string>;
+  credentials?: RequestCredentials;
+}
+
+/**
+ * Stores attempts on an HTTP backend:
+ *   GET  <endpoint>?courseId=&learnerId=&scoId=         -> attempt JSON, 404 if none
+ *   PUT  <endpoint>?courseId=&learnerId=&scoId=         <- attempt JSON
+ *   POST <endpoint>/finish?courseId=&learnerId=&scoId=  <- attempt JSON
+ *   GET  <endpoint>/sequencing?courseId=&learnerId=     -> sequencing state JSON, 404 if none
+ *   PUT  <endpoint>/sequencing?courseId=&learnerId=     <- sequencing state JSON
+ *   GET  <endpoint>/objectives?learnerId=&courseId=     -> objectives JSON, 404 if none
+ *   PUT  <endpoint>/objectives?learnerId=&courseId=     <- objectives JSON
+ */
+export class SCORMHttpAdapter implements SCORMPersistenceAdapter {
+  private static readonly KEEPALIVE_BODY_LIMIT = 64 * 1024;
+  private endpoint: string;
+  private options: SCORMHttpAdapterOptions;
+
+  constructor(endpoint: string, options: SCORMHttpAdapterOptions = {}) {
+    this.endpoint = endpoint;
+    this.options = options;
+  }
+
+  async loadAttempt(key: SCORMAttemptKey): Promise<SCORMAttemptData | null> {
+    const response = await fetch(this.buildUrl(this.endpoint, key), {
+      headers: this.options.headers,
+      credentials: this.options.credentials,
+    });
+
+    if (response.status === 404) {
+      return null;
+    }
+    if (!response.ok) {
+      throw new Error(
+        `Failed to load attempt: ${response.status} ${response.statusText}`
+      );
+    }
+    return (await response.json()) as SCORMAttemptData;
+  }
+
+  async saveAttempt(key: SCORMAttemptKey, data: SCORMAttemptData): Promise<void> {
+    await this.send("PUT", this.buildUrl(this.endpoint, key), data, "save attempt");
+  }
+
+  async finishAttempt(key: SCORMAttemptKey, data: SCORMAttemptData): Promise<void> {
+    const endpoint = `${this.endpoint.replace(/\/$/, "")}/finish`;
+    // Terminate often runs while the page unloads
+    await this.send("POST", this.buildUrl(endpoint, key), data, "finish attempt", true);
+  }
+
+  async loadSequencingState(key: SCORMAttemptKey): Promise<SCORMSequencingStateData | null> {
+    const endpoint = `${this.endpoint.replace(/\/$/, "")}/sequencing`;
+    const response = await fetch(this.buildUrl(endpoint, key), {
+      headers: this.options.headers,
+      credentials: this.options.credentials,
+    });
+
+    if (response.status === 404) {
+      return null;
+    }
+    if (!response.ok) {
+      throw new Error(
+        `Failed to load sequencing state: ${response.status} ${response.statusText}`
+      );
+    }
+    return (await response.json()) as SCORMSequencingStateData;
+  }
+
+  async saveSequencingState(key: SCORMAttemptKey, data: SCORMSequencingStateData): Promise<void> {
+    const endpoint = `${this.endpoint.replace(/\/$/, "")}/sequencing`;
+    await this.send("PUT", this.buildUrl(endpoint, key), data, "save sequencing state");
+  }
+
+  async clearSequencingState(key: SCORMAttemptKey): Promise<void> {
+    const endpoint = `${this.endpoint.replace(/\/$/, "")}/sequencing`;
+    const response = await fetch(this.buildUrl(endpoint, key), {
+      method: "DELETE",
+      headers: this.options.headers,
+      credentials: this.options.credentials,
+    });
+
+    // Nothing stored is as good as removed
+    if (!response.ok && response.status !== 404) {
+      throw new Error(
+        `Failed to clear sequencing state: ${response.status} ${response.statusText}`
+      );
+    }
+  }
+
+  async loadGlobalObjectives(key: SCORMObjectivesKey): Promise<SCORMGlobalObjectivesData | null> {
+    const response = await fetch(this.buildObjectivesUrl(key), {
+      headers: this.options.headers,
+      credentials: this.options.credentials,
+    });
+
+    if (response.status === 404) {
+      return null;
+    }
+    if (!response.ok) {
+      throw new Error(
+        `Failed to load objectives: ${response.status} ${response.statusText}`
+      );
+    }
+    return (await response.json()) as SCORMGlobalObjectivesData;
+  }
+
+  async saveGlobalObjectives(key: SCORMObjectivesKey, data: SCORMGlobalObjectivesData): Promise<void> {
+    await this.send("PUT", this.buildObjectivesUrl(key), data, "save objectives");
+  }
+
+  private buildUrl(endpoint: string, key: SCORMAttemptKey): string {
+    const params = new URLSearchParams({
+      courseId: key.courseId,
+      learnerId: key.learnerId,
+    });
+    if (key.scoId) {
+      params.set("scoId", key.scoId);
+    }
+    return `${endpoint}${endpoint.includes("?") ? "&" : "?"}${params.toString()}`;
+  }
+
+  private buildObjectivesUrl(key: SCORMObjectivesKey): string {
+    const endpoint = `${this.endpoint.replace(/\/$/, "")}/objectives`;
+    const params = new URLSearchParams({ learnerId: key.learnerId });
+    if (key.courseId) {
+      params.set("courseId", key.courseId);
+    }
+    return `${endpoint}${endpoint.includes("?") ? "&" : "?"}${params.toString()}`;
+  }
+
+  /**
+   * @param action - What the request does, for error messages
+   * @param keepalive - Let the request complete while the page unloads.
+   * Browsers reject keepalive bodies over 64 KiB, so larger bodies are sent
+   * without it.
+   */
+  private async send(
+    method: string,
+    url: string,
+    data: SCORMAttemptData | SCORMSequencingStateData | SCORMGlobalObjectivesData,
+    action: string,
+    keepalive = false
+  ): Promise<void> {
+    const body = JSON.stringify(data);
+    const response = await fetch(url, {
+      method,
+      headers: { "Content-Type": "application/json", ...this.options.headers },
+      credentials: this.options.credentials,
+      body,
+      keepalive: keepalive && new Blob([body]).size <= SCORMHttpAdapter.KEEPALIVE_BODY_LIMIT,
+    });
+
+    if (!response.ok) {
+      throw new Error(
+        `Failed to ${action}: ${response.status} ${response.statusText}`
+      );
+    }
+  }
+}
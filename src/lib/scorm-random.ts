@@ -0,0 +1,33 @@
+// Seedable Random Numbers
+// Sequencing selects and reorders activities at random. A seeded generator
+// makes those choices reproducible, so an ordering can be replayed in tests
+// and simulations.
+
+/**
+ * Create a pseudo-random number generator (mulberry32)
+ * @param seed - Any 32-bit integer; the same seed yields the same sequence
+ * @returns A function returning numbers in [0, 1), like Math.random
+ */
+export function createSeededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Shuffle a copy of an array (Fisher-Yates)
+ */
+export function shuffle<T>(items: T[], random: () => number): T[] {
+  const shuffled = items.slice();
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+  }
+  return shuffled;
+}
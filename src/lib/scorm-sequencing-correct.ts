@@ -9,17 +9,28 @@ import {
   SCORMSequencingRules,
   SCORMRule,
   SCORMRuleCondition,
-  SCORMLimitConditions,
+  SCORMRollupRule,
+  SCORMMapInfo,
   SCORMManifest,
   SCORMOrganization,
 } from "@/types/scorm";
+import { parseISODuration } from "@/lib/scorm-time";
+import { createSeededRandom, shuffle } from "@/lib/scorm-random";
+import { getOrganization } from "@/lib/scorm-organization";
+import {
+  SequencingEventEmitter,
+  SequencingEventListener,
+  SequencingEventMap,
+  SequencingEventType,
+} from "@/lib/scorm-sequencing-events";
 
 // SCORM Activity Tree Node
 export interface Activity {
   identifier: string;
   item: SCORMItem;
   parent?: Activity;
-  children: Activity[];
+  children: Activity[]; // Available children, after selection and randomization
+  allChildren: Activity[]; // Every child, in manifest order
   isLeaf: boolean;
   isRoot: boolean;
   depth: number;
@@ -34,27 +45,35 @@ export interface ActivityStateInformation {
   // Attempt State
   activityIsActive: boolean;
   activityIsSuspended: boolean;
+  activityAttemptCount: number; // Attempts begun, including the one in progress
   
-  // Activity Progress Information
+  // Activity Progress Information (durations in milliseconds)
   activityProgressStatus: boolean; // true if progress is known
   activityCompletionStatus: boolean;
   activityAbsoluteDuration: number;
   activityExperiencedDuration: number;
   
-  // Attempt Progress Information  
+  // Attempt Progress Information (durations in milliseconds)
   attemptProgressStatus: boolean;
   attemptCompletionStatus: boolean;
   attemptAbsoluteDuration: number;
   attemptExperiencedDuration: number;
   attemptCompletionAmount: number;
+
+  // Duration tracking timestamps (ms since epoch), unset while not running
+  activityStartedAt?: number; // Start of the first attempt
+  attemptStartedAt?: number; // Start of the attempt in progress
+  deliveredAt?: number; // Start of the current delivery
   
   // Objective Information
   objectives: Map<string, ObjectiveState>;
-  
-  // Attempt State
-  suspendedActivity?: Activity;
 }
 
+type ActivityDurations = Pick<
+  ActivityStateInformation,
+  "activityAbsoluteDuration" | "activityExperiencedDuration" | "attemptAbsoluteDuration" | "attemptExperiencedDuration"
+>;
+
 export interface ObjectiveState {
   objectiveProgressStatus: boolean;
   objectiveSatisfiedStatus: boolean;
@@ -62,36 +81,133 @@ export interface ObjectiveState {
   objectiveNormalizedMeasure: number;
 }
 
+// Tracking results reported by a SCO's runtime data model when it terminates
+export interface ActivityRuntimeResults {
+  completionStatus?: string;
+  successStatus?: string;
+  scoreScaled?: number;
+  exit?: string;
+  objectives?: ObjectiveRuntimeResults[]; // From cmi.objectives.n
+}
+
+export interface ObjectiveRuntimeResults {
+  id: string;
+  successStatus?: string;
+  scoreScaled?: number;
+}
+
+// Outcome of the Flow Subprocess: the activity to deliver, if any, and
+// whether the traversal ran off the end of the activity tree
+interface FlowResult {
+  activity: Activity | null;
+  endOfTree: boolean;
+}
+
+type SequencingRuleType = keyof SCORMSequencingRules;
+
+const POST_CONDITION_ACTIONS = ["exitParent", "exitAll", "retry", "retryAll", "continue", "previous"];
+
+type RollupAction = "satisfied" | "notSatisfied" | "completed" | "incomplete";
+
+// Applied for an action when the activity defines no rollup rule for it
+const DEFAULT_ROLLUP_RULES: Record<RollupAction, SCORMRollupRule> = {
+  satisfied: {
+    action: "satisfied",
+    childActivitySet: "all",
+    conditionCombination: "any",
+    conditions: [{ condition: "satisfied" }],
+  },
+  notSatisfied: {
+    action: "notSatisfied",
+    childActivitySet: "all",
+    conditionCombination: "any",
+    conditions: [{ condition: "objectiveStatusKnown" }],
+  },
+  completed: {
+    action: "completed",
+    childActivitySet: "all",
+    conditionCombination: "any",
+    conditions: [{ condition: "completed" }],
+  },
+  incomplete: {
+    action: "incomplete",
+    childActivitySet: "all",
+    conditionCombination: "any",
+    conditions: [{ condition: "activityProgressKnown" }],
+  },
+};
+
+// Version of the snapshot format produced by exportState
+export const SEQUENCING_STATE_VERSION = 1;
+
+// JSON-serializable activity state; objectives are keyed by objective ID
+export type ActivityStateSnapshot = Omit<ActivityStateInformation, "objectives" | "deliveredAt"> & {
+  objectives: Record<string, ObjectiveState>;
+};
+
+// Sequencing state saved between sessions, keyed by activity identifier.
+// Global objectives are not included; they are shared beyond the course.
+export interface SequencingStateSnapshot {
+  version: number;
+  activities: Record<string, ActivityStateSnapshot>;
+  childOrder: Record<string, string[]>;
+  suspendedActivity?: string;
+}
+
+export interface SCORMSequencingEngineOptions {
+  seed?: number; // Seeds child selection and randomization; random when omitted
+  organizationId?: string; // Organization to sequence; the manifest's default when omitted
+}
+
 export interface SequencingSession {
   activityTree: Activity;
   currentActivity?: Activity;
+  suspendedActivity?: Activity; // Where resumeAll picks up after suspendAll
   sequencingSession: Map<string, any>;
   globalObjectives: Map<string, ObjectiveState>;
 }
 
 export class SCORMSequencingEngine {
   private manifest: SCORMManifest;
+  private organization: SCORMOrganization;
   private session: SequencingSession;
   private endSession: boolean = false;
+  private random: () => number;
+  private events = new SequencingEventEmitter();
+  private lookAheadDepth = 0; // Events are muted while previewing navigation
 
-  constructor(manifest: SCORMManifest) {
+  constructor(manifest: SCORMManifest, options: SCORMSequencingEngineOptions = {}) {
     this.manifest = manifest;
+    this.organization = this.selectOrganization(options.organizationId);
+    this.random = createSeededRandom(options.seed ?? Math.floor(Math.random() * 2 ** 32));
     this.session = {
       activityTree: this.buildActivityTree(),
       sequencingSession: new Map(),
       globalObjectives: new Map(),
     };
+    this.forEachActivity(this.session.activityTree, (activity) => this.selectAndRandomizeChildren(activity));
   }
 
-  // Build Activity Tree according to SCORM specification
-  private buildActivityTree(): Activity {
+  private selectOrganization(organizationId?: string): SCORMOrganization {
     if (this.manifest.organizations.length === 0) {
       throw new Error("No organizations found in manifest");
     }
 
-    const org = this.manifest.organizations[0];
-    const rootActivity = this.createActivity(org.identifier, null, true, 0);
-    rootActivity.children = this.buildActivityChildren(org.items, rootActivity, 1);
+    const organization = getOrganization(this.manifest, organizationId);
+    if (!organization) {
+      throw new Error(`Organization not found in manifest: ${organizationId}`);
+    }
+    return organization;
+  }
+
+  // Build Activity Tree according to SCORM specification
+  private buildActivityTree(): Activity {
+    const org = this.organization;
+    const rootActivity = this.createActivity(org.identifier, null, org.items.length === 0, 0);
+    rootActivity.item = { identifier: org.identifier, title: org.title, item: org.items };
+    rootActivity.sequencingDefinition = org.sequencing || null;
+    rootActivity.allChildren = this.buildActivityChildren(org.items, rootActivity, 1);
+    rootActivity.children = rootActivity.allChildren.slice();
     
     return rootActivity;
   }
@@ -105,7 +221,8 @@ export class SCORMSequencingEngine {
       activity.sequencingDefinition = item.sequencing || null;
       
       if (item.item && item.item.length > 0) {
-        activity.children = this.buildActivityChildren(item.item, activity, depth + 1);
+        activity.allChildren = this.buildActivityChildren(item.item, activity, depth + 1);
+        activity.children = activity.allChildren.slice();
       }
       
       children.push(activity);
@@ -120,6 +237,7 @@ export class SCORMSequencingEngine {
       item: {} as SCORMItem, // Will be set later
       parent: parent || undefined,
       children: [],
+      allChildren: [],
       isLeaf,
       isRoot: parent === null,
       depth,
@@ -132,6 +250,7 @@ export class SCORMSequencingEngine {
     return {
       activityIsActive: false,
       activityIsSuspended: false,
+      activityAttemptCount: 0,
       activityProgressStatus: false,
       activityCompletionStatus: false,
       activityAbsoluteDuration: 0,
@@ -147,47 +266,66 @@ export class SCORMSequencingEngine {
 
   // Overall Sequencing Process [OP.1]
   public overallSequencingProcess(navigationRequest: string, targetActivityId?: string): Activity | null {
-    console.log(`[OP.1] Overall Sequencing Process - Request: ${navigationRequest}`);
+    this.trace("OP.1", `Overall Sequencing Process - Request: ${navigationRequest}`);
     
-    this.endSession = false;
     let deliveryRequest: Activity | null = null;
 
     // Step 1: Process Navigation Request
     const navigationValid = this.navigationRequestProcess(navigationRequest, targetActivityId);
+    this.emit("navigationRequested", {
+      request: navigationRequest,
+      targetId: targetActivityId,
+      valid: navigationValid.valid,
+      exception: navigationValid.exception,
+    });
     
     if (!navigationValid.valid) {
-      console.log(`[OP.1] Navigation request invalid: ${navigationValid.exception}`);
+      this.trace("OP.1", `Navigation request invalid: ${navigationValid.exception}`);
       return null;
     }
+    // start or resumeAll begins a new sequencing session
+    this.endSession = false;
 
-    // Step 2: Process Termination if needed  
+    // Step 2: Process Termination if needed; post-condition rules may
+    // replace the sequencing request
+    let sequencingRequest = navigationRequest;
     if (this.session.currentActivity) {
-      this.terminationRequestProcess();
+      sequencingRequest = this.terminationRequestProcess(navigationRequest) ?? navigationRequest;
     }
 
     // Step 3: Process Sequencing Request
-    const sequencingResult = this.sequencingRequestProcess(navigationRequest, targetActivityId);
+    const sequencingResult = this.sequencingRequestProcess(sequencingRequest, targetActivityId);
     
     if (sequencingResult.valid && sequencingResult.activity) {
       // Step 4: Process Delivery Request
       deliveryRequest = this.deliveryRequestProcess(sequencingResult.activity);
     }
 
+    if (this.endSession) {
+      // Nothing is current once the session is over; resumeAll uses the
+      // suspended activity
+      this.session.currentActivity = undefined;
+      this.emit("sessionEnded", {
+        request: sequencingRequest,
+        suspendedActivityId: this.session.suspendedActivity?.identifier,
+      });
+    }
+
     return deliveryRequest;
   }
 
   // Navigation Request Process [NB.2.1]  
   private navigationRequestProcess(request: string, targetId?: string): { valid: boolean; exception?: string } {
-    console.log(`[NB.2.1] Navigation Request Process - ${request}`);
+    this.trace("NB.2.1", `Navigation Request Process - ${request}`);
     
     // Validate request type
-    const validRequests = ["start", "resumeAll", "continue", "previous", "choice", "exit", "exitAll", "abandon", "abandonAll"];
+    const validRequests = ["start", "resumeAll", "continue", "previous", "choice", "exit", "exitAll", "suspendAll", "abandon", "abandonAll"];
     if (!validRequests.includes(request)) {
       return { valid: false, exception: "Invalid navigation request" };
     }
 
-    // Check if session has ended
-    if (this.endSession) {
+    // Only a new session can follow one that has ended
+    if (this.endSession && request !== "start" && request !== "resumeAll") {
       return { valid: false, exception: "Sequencing session has ended" };
     }
 
@@ -206,8 +344,25 @@ export class SCORMSequencingEngine {
         break;
         
       case "continue":
+        if (!this.session.currentActivity) {
+          return { valid: false, exception: "No current activity" };
+        }
+        if (!this.isContinueAllowed(this.session.currentActivity)) {
+          return { valid: false, exception: "Flow not allowed for current activity" };
+        }
+        break;
+
       case "previous":
+        if (!this.session.currentActivity) {
+          return { valid: false, exception: "No current activity" };
+        }
+        if (!this.isPreviousAllowed(this.session.currentActivity)) {
+          return { valid: false, exception: "Backward flow not allowed for current activity" };
+        }
+        break;
+
       case "exit":
+      case "suspendAll":
       case "abandon":
         if (!this.session.currentActivity) {
           return { valid: false, exception: "No current activity" };
@@ -222,8 +377,15 @@ export class SCORMSequencingEngine {
         if (!targetActivity) {
           return { valid: false, exception: "Target activity not found" };
         }
-        if (!this.isChoiceValid(targetActivity)) {
-          return { valid: false, exception: "Choice not valid for target activity" };
+        // Rejected before termination, so an invalid choice leaves the
+        // current attempt running
+        const choiceException = this.lookAhead(
+          () =>
+            this.checkChoiceTarget(targetActivity) ??
+            (this.getChoiceDelivery(targetActivity) ? null : "Nothing to deliver for target activity")
+        );
+        if (choiceException) {
+          return { valid: false, exception: choiceException };
         }
         break;
     }
@@ -232,24 +394,103 @@ export class SCORMSequencingEngine {
   }
 
   // Termination Request Process [TB.2.3]
-  private terminationRequestProcess(): void {
-    console.log("[TB.2.3] Termination Request Process");
+  // Ends the current attempt and, for an exit, applies exit and post-condition
+  // rules. Returns the sequencing request a post-condition rule asks for.
+  private terminationRequestProcess(request: string): string | null {
+    this.trace("TB.2.3", `Termination Request Process - ${request}`);
     
-    if (!this.session.currentActivity) {
-      return;
+    const current = this.session.currentActivity;
+    if (!current) {
+      return null;
     }
 
     // Mark current activity as not active
-    this.session.currentActivity.activityStateInformation.activityIsActive = false;
-    
-    // Run sequencing rules and rollup
-    this.sequencingRulesCheckProcess(this.session.currentActivity, "exit");
-    this.rollupProcess(this.session.currentActivity);
+    const state = current.activityStateInformation;
+    state.activityIsActive = false;
+
+    // Suspending keeps every attempt on the path open for resumeAll
+    if (request === "suspendAll") {
+      this.stopDeliveryTiming(current, Date.now());
+      this.rollupProcess(current);
+      for (const activity of this.getActivityPath(current)) {
+        activity.activityStateInformation.activityIsSuspended = true;
+      }
+      this.session.suspendedActivity = current;
+      this.trace("TB.2.3", `Suspended at ${current.identifier}`, current);
+      return null;
+    }
+
+    // Exiting ends the attempt unless the learner suspended it
+    this.stopDeliveryTiming(current, Date.now());
+    if (!state.activityIsSuspended) {
+      this.endAttempt(current);
+    }
+
+    switch (request) {
+      case "abandon":
+        return null;
+
+      case "abandonAll":
+        this.endAttemptsOnPath(current);
+        return null;
+
+      case "exitAll":
+        this.rollupProcess(current);
+        this.endAttemptsOnPath(current);
+        return null;
+    }
+
+    this.sequencingExitActionRulesSubprocess();
+    this.rollupProcess(this.session.currentActivity!);
+
+    // Post-condition rules [TB.2.2]; exitParent moves up a level and
+    // evaluates the parent's rules in turn
+    for (let activity = this.session.currentActivity; activity; activity = activity.parent) {
+      const action = this.sequencingRulesCheckProcess(activity, "postConditionRule", POST_CONDITION_ACTIONS);
+      if (action !== "exitParent") {
+        return action;
+      }
+      if (!activity.parent) {
+        return null;
+      }
+
+      this.endAttempt(activity.parent);
+      this.session.currentActivity = activity.parent;
+      this.rollupProcess(activity.parent);
+    }
+
+    return null;
+  }
+
+  // Sequencing Exit Action Rules Subprocess [TB.2.1]
+  // The highest ancestor whose exit rule applies is exited along with
+  // everything below it, and becomes the current activity
+  private sequencingExitActionRulesSubprocess(): void {
+    const current = this.session.currentActivity;
+    if (!current) {
+      return;
+    }
+
+    const ancestors = this.getActivityPath(current).slice(1).reverse();
+    const exitTarget = ancestors.find(
+      (ancestor) => this.sequencingRulesCheckProcess(ancestor, "exitConditionRule", ["exit"]) !== null
+    );
+    if (!exitTarget) {
+      return;
+    }
+
+    for (const activity of this.getActivityPath(current)) {
+      this.endAttempt(activity);
+      if (activity === exitTarget) {
+        break;
+      }
+    }
+    this.session.currentActivity = exitTarget;
   }
 
   // Sequencing Request Process [SB.2.12]
   private sequencingRequestProcess(request: string, targetId?: string): { valid: boolean; activity?: Activity; exception?: string } {
-    console.log(`[SB.2.12] Sequencing Request Process - ${request}`);
+    this.trace("SB.2.12", `Sequencing Request Process - ${request}`);
     
     let identifiedActivity: Activity | null = null;
 
@@ -277,17 +518,31 @@ export class SCORMSequencingEngine {
         break;
         
       case "exit":
-        identifiedActivity = this.exitSequencingRequestProcess();
-        break;
+        // Exiting an activity below the root delivers nothing; the learner
+        // chooses what to do next
+        this.exitSequencingRequestProcess();
+        return { valid: true };
         
       case "exitAll":
+        if (this.session.currentActivity) {
+          this.endAttemptsOnPath(this.session.currentActivity);
+        }
         this.endSession = true;
         return { valid: true };
+
+      case "retry":
+        identifiedActivity = this.retrySequencingRequestProcess();
+        break;
+
+      case "retryAll":
+        identifiedActivity = this.retryAllSequencingRequestProcess();
+        break;
         
       case "abandon":
-        identifiedActivity = this.continueSequencingRequestProcess();
-        break;
+        this.exitSequencingRequestProcess();
+        return { valid: true };
         
+      case "suspendAll":
       case "abandonAll":
         this.endSession = true;
         return { valid: true };
@@ -295,33 +550,27 @@ export class SCORMSequencingEngine {
 
     if (identifiedActivity) {
       return { valid: true, activity: identifiedActivity };
-    } else {
-      this.endSession = true;
-      return { valid: false, exception: "No activity identified" };
     }
+    return { valid: false, exception: "No activity identified" };
   }
 
   // Start Sequencing Request Process [SB.2.5]
   private startSequencingRequestProcess(): Activity | null {
-    console.log("[SB.2.5] Start Sequencing Request Process");
+    this.trace("SB.2.5", "Start Sequencing Request Process");
     
     const rootActivity = this.session.activityTree;
-    
-    // Check if the root activity allows choice
-    if (!this.isChoiceValid(rootActivity)) {
-      return null;
-    }
 
     // Flow into the activity tree
-    return this.flowSubprocess(rootActivity, true);
+    return this.flowSubprocess(rootActivity, true).activity;
   }
 
   // Resume All Sequencing Request Process  
   private resumeAllSequencingRequestProcess(): Activity | null {
-    console.log("[SB] Resume All Sequencing Request Process");
+    this.trace("SB", "Resume All Sequencing Request Process");
     
     // Look for suspended activity
-    const suspendedActivity = this.findSuspendedActivity(this.session.activityTree);
+    const suspendedActivity = this.session.suspendedActivity ??
+      this.findSuspendedActivity(this.session.activityTree);
     if (suspendedActivity) {
       return suspendedActivity;
     }
@@ -332,7 +581,7 @@ export class SCORMSequencingEngine {
 
   // Continue Sequencing Request Process [SB.2.7]
   private continueSequencingRequestProcess(): Activity | null {
-    console.log("[SB.2.7] Continue Sequencing Request Process");
+    this.trace("SB.2.7", "Continue Sequencing Request Process");
     
     if (!this.session.currentActivity) {
       return null;
@@ -343,13 +592,18 @@ export class SCORMSequencingEngine {
       return null;
     }
 
-    // Flow from current activity
-    return this.flowSubprocess(this.session.currentActivity, false);
+    // Flow from current activity; only flowing forward past the last
+    // activity ends the session [SB.2.1]
+    const flow = this.flowSubprocess(this.session.currentActivity, false);
+    if (flow.endOfTree) {
+      this.endSession = true;
+    }
+    return flow.activity;
   }
 
   // Previous Sequencing Request Process
   private previousSequencingRequestProcess(): Activity | null {
-    console.log("[SB] Previous Sequencing Request Process");
+    this.trace("SB", "Previous Sequencing Request Process");
     
     if (!this.session.currentActivity) {
       return null;
@@ -361,88 +615,307 @@ export class SCORMSequencingEngine {
     }
 
     // Flow backwards from current activity
-    return this.flowSubprocess(this.session.currentActivity, false, true);
+    return this.flowSubprocess(this.session.currentActivity, false, true).activity;
+  }
+
+  // Retry Sequencing Request Process [SB.2.10]
+  // Begins a new attempt on the current activity, or on the first
+  // deliverable activity inside it
+  private retrySequencingRequestProcess(): Activity | null {
+    this.trace("SB.2.10", "Retry Sequencing Request Process");
+
+    const current = this.session.currentActivity;
+    if (!current) {
+      return null;
+    }
+
+    if (current.isLeaf) {
+      return this.isActivityDeliverable(current) ? current : null;
+    }
+    return this.flowSubprocess(current, true).activity;
   }
 
-  // Choice Sequencing Request Process
+  // Retry All: exit every attempt and start the activity tree over
+  private retryAllSequencingRequestProcess(): Activity | null {
+    this.trace("SB", "Retry All Sequencing Request Process");
+
+    if (this.session.currentActivity) {
+      this.endAttemptsOnPath(this.session.currentActivity);
+    }
+    this.session.currentActivity = undefined;
+    return this.startSequencingRequestProcess();
+  }
+
+  // Choice Sequencing Request Process [SB.2.9]
   private choiceSequencingRequestProcess(targetId: string): Activity | null {
-    console.log(`[SB] Choice Sequencing Request Process - Target: ${targetId}`);
+    this.trace("SB.2.9", `Choice Sequencing Request Process - Target: ${targetId}`, targetId);
     
     const targetActivity = this.findActivity(targetId);
     if (!targetActivity) {
       return null;
     }
 
-    if (!this.isChoiceValid(targetActivity)) {
+    const exception = this.checkChoiceTarget(targetActivity);
+    if (exception) {
+      this.trace("SB.2.9", `Choice of ${targetId} not allowed: ${exception}`, targetId);
+      return null;
+    }
+    return this.getChoiceDelivery(targetActivity);
+  }
+
+  // The checks of the Choice Sequencing Request Process, without side
+  // effects. Returns why the target may not be chosen, or null if it may.
+  private checkChoiceTarget(target: Activity): string | null {
+    const pathFromRoot = this.getActivityPath(target).reverse();
+    if (pathFromRoot.some((activity) => this.sequencingRulesCheckProcess(activity, "preConditionRule", ["hiddenFromChoice"]))) {
+      return "Target activity is hidden from choice";
+    }
+    if (!this.isChoiceValid(target)) {
+      return "Choice control mode is off for the target's parent";
+    }
+
+    const current = this.session.currentActivity;
+    if (!current || current === target) {
+      return this.checkChoiceActivation(this.session.activityTree, target);
+    }
+
+    const commonAncestor = this.getCommonAncestor(current, target);
+
+    // The target is a sibling of the current activity
+    if (current.parent && current.parent === target.parent) {
+      return this.checkChoiceTraversal(current, target);
+    }
+
+    // The target is the current activity's ancestor: every activity exited
+    // on the way up must allow it
+    if (commonAncestor === target) {
+      return this.checkChoiceExit(current, target);
+    }
+
+    // The target is a descendant of the current activity
+    if (commonAncestor === current) {
+      return this.checkChoiceActivation(commonAncestor, target);
+    }
+
+    // The target is elsewhere in the tree: leave the current activity's
+    // branch, then enter the target's
+    return this.checkChoiceExit(current, commonAncestor) ??
+      this.checkConstrainedChoice(current, commonAncestor, target) ??
+      this.checkChoiceTraversal(
+        this.getChildOnPath(commonAncestor, current),
+        this.getChildOnPath(commonAncestor, target)
+      ) ??
+      this.checkChoiceActivation(commonAncestor, target);
+  }
+
+  // Choice Activity Traversal Subprocess [SB.2.4] applied to the siblings
+  // passed between two children of the same parent: moving forward is
+  // stopped by stopForwardTraversal rules, moving backward by forwardOnly
+  private checkChoiceTraversal(from: Activity, to: Activity): string | null {
+    const siblings = from.parent?.children || [];
+    const fromIndex = siblings.indexOf(from);
+    const toIndex = siblings.indexOf(to);
+
+    if (toIndex < fromIndex) {
+      return from.parent?.sequencingDefinition?.controlMode?.forwardOnly === true
+        ? "Backward choice is not allowed in a forwardOnly cluster"
+        : null;
+    }
+
+    for (const activity of siblings.slice(fromIndex, toIndex)) {
+      if (this.sequencingRulesCheckProcess(activity, "preConditionRule", ["stopForwardTraversal"])) {
+        return `Forward traversal is stopped at ${activity.identifier}`;
+      }
+    }
+    return null;
+  }
+
+  // Activities left by the choice must allow choiceExit while active
+  private checkChoiceExit(current: Activity, ancestor: Activity): string | null {
+    for (const activity of this.getActivityPath(current)) {
+      if (activity === ancestor) {
+        break;
+      }
+      const active = activity === current || activity.activityStateInformation.attemptStartedAt !== undefined;
+      if (active && activity.sequencingDefinition?.controlMode?.choiceExit === false) {
+        return `Choice may not exit ${activity.identifier}`;
+      }
+    }
+    return null;
+  }
+
+  // Activities entered by the choice below the common ancestor may not begin
+  // a new attempt through choice when preventActivation is set on them
+  private checkChoiceActivation(commonAncestor: Activity, target: Activity): string | null {
+    for (const activity of this.getActivityPath(target).reverse()) {
+      const state = activity.activityStateInformation;
+      const active = state.attemptStartedAt !== undefined || state.activityIsSuspended;
+      if (activity === commonAncestor || active || activity.isLeaf) {
+        continue;
+      }
+      if (activity.sequencingDefinition?.constrainedChoiceConsiderations?.preventActivation) {
+        return `Choice may not activate ${activity.identifier}`;
+      }
+    }
+    return null;
+  }
+
+  // constrainChoice on an activity being left limits choice to the activity
+  // itself and its neighbour in the direction of the target
+  private checkConstrainedChoice(current: Activity, commonAncestor: Activity, target: Activity): string | null {
+    const constrained = this.getActivityPath(current)
+      .slice(0, this.getActivityPath(current).indexOf(commonAncestor))
+      .find((activity) => activity.sequencingDefinition?.constrainedChoiceConsiderations?.constrainChoice);
+    if (!constrained) {
+      return null;
+    }
+
+    const forward = this.isForwardInTree(constrained, target);
+    const neighbour = this.getChoiceFlowNeighbour(constrained, forward) ?? constrained;
+    if (target === constrained || this.getActivityPath(target).includes(neighbour)) {
       return null;
     }
+    return `Choice is constrained by ${constrained.identifier}`;
+  }
+
+  // Choice Flow Tree Traversal Subprocess [SB.2.9.2]: the next (or previous)
+  // activity at the same level or above, without entering children
+  private getChoiceFlowNeighbour(activity: Activity, forward: boolean): Activity | null {
+    for (let node: Activity | undefined = activity; node?.parent; node = node.parent) {
+      const siblings = node.parent.children;
+      const neighbour = siblings[siblings.indexOf(node) + (forward ? 1 : -1)];
+      if (neighbour) {
+        return neighbour;
+      }
+    }
+    return null;
+  }
+
+  // A chosen leaf is delivered as is; a chosen cluster flows into its
+  // first deliverable descendant
+  private getChoiceDelivery(target: Activity): Activity | null {
+    if (target.isLeaf) {
+      return this.isActivityDeliverable(target) ? target : null;
+    }
 
-    return this.flowSubprocess(targetActivity, true);
+    const activity = this.flowSubprocess(target, true).activity;
+    return activity && this.getActivityPath(activity).includes(target) ? activity : null;
+  }
+
+  private getCommonAncestor(first: Activity, second: Activity): Activity {
+    const secondPath = this.getActivityPath(second);
+    return this.getActivityPath(first).find((activity) => secondPath.includes(activity)) ?? this.session.activityTree;
+  }
+
+  // The child of an ancestor on the path down to a descendant
+  private getChildOnPath(ancestor: Activity, descendant: Activity): Activity {
+    const path = this.getActivityPath(descendant);
+    return path[path.indexOf(ancestor) - 1];
+  }
+
+  private isForwardInTree(from: Activity, to: Activity): boolean {
+    const order: Activity[] = [];
+    const visit = (activity: Activity) => {
+      order.push(activity);
+      activity.children.forEach(visit);
+    };
+    visit(this.session.activityTree);
+    return order.indexOf(to) > order.indexOf(from);
   }
 
   // Exit Sequencing Request Process
   private exitSequencingRequestProcess(): Activity | null {
-    console.log("[SB] Exit Sequencing Request Process");
+    this.trace("SB", "Exit Sequencing Request Process");
     
     if (!this.session.currentActivity) {
       return null;
     }
 
-    const parent = this.session.currentActivity.parent;
-    if (!parent) {
+    // Exiting the root ends the sequencing session
+    if (!this.session.currentActivity.parent) {
       this.endSession = true;
-      return null;
     }
 
-    return this.flowSubprocess(parent, false);
+    return null;
   }
 
   // Flow Subprocess [SB.2.3]
-  private flowSubprocess(activity: Activity, entry: boolean, reverse: boolean = false): Activity | null {
-    console.log(`[SB.2.3] Flow Subprocess - Activity: ${activity.identifier}, Entry: ${entry}, Reverse: ${reverse}`);
-    
-    // If this is a leaf activity and entry is true, return it
-    if (activity.isLeaf && entry) {
-      if (this.isActivityDeliverable(activity)) {
-        return activity;
+  // Walks the activity tree in the given direction until a deliverable leaf is
+  // found. With entry set the walk may stop at the starting activity itself;
+  // clusters are always entered rather than delivered.
+  private flowSubprocess(activity: Activity, entry: boolean, reverse: boolean = false): FlowResult {
+    this.trace("SB.2.3", `Flow Subprocess - Activity: ${activity.identifier}, Entry: ${entry}, Reverse: ${reverse}`, activity);
+    
+    const direction = reverse ? "backward" : "forward";
+    // Leaving an activity moves past its descendants
+    let candidate: Activity | null = entry
+      ? activity
+      : this.flowTreeTraversalSubprocess(activity, direction, false);
+    let previous = activity;
+
+    while (candidate) {
+      if (!reverse && this.isForwardTraversalStopped(previous, candidate)) {
+        this.trace("SB.2.3", `Forward traversal stopped before ${candidate.identifier}`, candidate);
+        return { activity: null, endOfTree: false };
       }
-    }
 
-    // If this is not a leaf, find appropriate child
-    if (!activity.isLeaf) {
-      let targetChild: Activity | null = null;
-      
-      if (entry) {
-        // Flow into first available child
-        targetChild = this.getFirstChild(activity);
-      } else {
-        // Flow to next/previous child
-        targetChild = reverse ? 
-          this.getPreviousChild(activity) : 
-          this.getNextChild(activity);
+      // Skipped activities are passed over along with their descendants
+      const skipped = this.findSkippedActivity(candidate, activity);
+      if (skipped) {
+        this.trace("SB.2.3", `Skipping ${skipped.identifier}`, skipped);
+        previous = skipped;
+        candidate = this.flowTreeTraversalSubprocess(skipped, direction, false);
+        continue;
       }
 
-      if (targetChild) {
-        return this.flowSubprocess(targetChild, true, reverse);
+      // A disabled activity or exhausted limit stops the flow
+      if (this.checkActivityProcess(candidate)) {
+        this.trace("SB.2.3", `Flow stopped at ${candidate.identifier}`, candidate);
+        return { activity: null, endOfTree: false };
       }
-    }
 
-    // Flow out to parent
-    const parent = activity.parent;
-    if (parent) {
-      return this.flowSubprocess(parent, false, reverse);
+      if (candidate.isLeaf && this.isActivityDeliverable(candidate)) {
+        return { activity: candidate, endOfTree: false };
+      }
+      previous = candidate;
+      candidate = this.flowTreeTraversalSubprocess(candidate, direction);
     }
 
-    // End of tree
-    return null;
+    // Flowed past the end of the tree
+    return { activity: null, endOfTree: true };
+  }
+
+  // Moving forward out of an activity is not allowed when its
+  // stopForwardTraversal rule applies
+  private isForwardTraversalStopped(from: Activity, to: Activity): boolean {
+    const toPath = this.getActivityPath(to);
+    return this.getActivityPath(from)
+      .filter((activity) => !toPath.includes(activity))
+      .some((activity) => this.sequencingRulesCheckProcess(activity, "preConditionRule", ["stopForwardTraversal"]) !== null);
+  }
+
+  // The outermost activity being entered on the way to the candidate whose
+  // skip rule applies
+  private findSkippedActivity(candidate: Activity, origin: Activity): Activity | null {
+    const originPath = this.getActivityPath(origin);
+    const entered = this.getActivityPath(candidate)
+      .filter((activity) => !originPath.includes(activity))
+      .reverse();
+    return entered.find(
+      (activity) => this.sequencingRulesCheckProcess(activity, "preConditionRule", ["skip"]) !== null
+    ) || null;
   }
 
   // Flow Tree Traversal Subprocess [SB.2.1]
-  private flowTreeTraversalSubprocess(activity: Activity, direction: "forward" | "backward"): Activity | null {
-    console.log(`[SB.2.1] Flow Tree Traversal - Activity: ${activity.identifier}, Direction: ${direction}`);
+  private flowTreeTraversalSubprocess(
+    activity: Activity,
+    direction: "forward" | "backward",
+    considerChildren: boolean = true
+  ): Activity | null {
+    this.trace("SB.2.1", `Flow Tree Traversal - Activity: ${activity.identifier}, Direction: ${direction}`, activity);
     
     if (direction === "forward") {
-      return this.getNextActivityInTree(activity);
+      return this.getNextActivityInTree(activity, considerChildren);
     } else {
       return this.getPreviousActivityInTree(activity);
     }
@@ -450,21 +923,39 @@ export class SCORMSequencingEngine {
 
   // Delivery Request Process [DB.1.1]
   private deliveryRequestProcess(activity: Activity): Activity | null {
-    console.log(`[DB.1.1] Delivery Request Process - Activity: ${activity.identifier}`);
+    this.trace("DB.1.1", `Delivery Request Process - Activity: ${activity.identifier}`, activity);
     
     if (!this.isActivityDeliverable(activity)) {
-      console.log(`[DB.1.1] Activity not deliverable: ${activity.identifier}`);
+      this.trace("DB.1.1", `Activity not deliverable: ${activity.identifier}`, activity);
       return null;
     }
 
-    // Set as current activity
+    // Attempts on clusters the delivery is leaving are over
+    const previousActivity = this.session.currentActivity;
+    if (previousActivity && previousActivity !== activity) {
+      const newPath = this.getActivityPath(activity);
+      for (const ancestor of this.getActivityPath(previousActivity)) {
+        if (!newPath.includes(ancestor) && !ancestor.activityStateInformation.activityIsSuspended) {
+          this.endAttempt(ancestor);
+        }
+      }
+    }
+
+    // Set as current activity; suspended attempts on the path resume rather
+    // than starting over
     this.session.currentActivity = activity;
+    this.session.suspendedActivity = undefined;
     activity.activityStateInformation.activityIsActive = true;
+    for (const node of this.getActivityPath(activity)) {
+      node.activityStateInformation.activityIsSuspended = false;
+    }
+    this.startDeliveryTiming(activity, Date.now());
 
-    // Run sequencing rules
-    this.sequencingRulesCheckProcess(activity, "entry");
-
-    console.log(`[DB.1.1] Delivering activity: ${activity.identifier}`);
+    this.trace("DB.1.1", `Delivering activity: ${activity.identifier}`, activity);
+    this.emit("activityDelivered", {
+      activityId: activity.identifier,
+      attemptCount: activity.activityStateInformation.activityAttemptCount,
+    });
     return activity;
   }
 
@@ -489,7 +980,7 @@ export class SCORMSequencingEngine {
   }
 
   private findSuspendedActivity(activity: Activity): Activity | null {
-    if (activity.activityStateInformation.activityIsSuspended) {
+    if (activity.isLeaf && activity.activityStateInformation.activityIsSuspended) {
       return activity;
     }
     
@@ -519,34 +1010,36 @@ export class SCORMSequencingEngine {
       return false;
     }
 
-    // Check pre-conditions
-    return this.checkPreConditions(activity);
+    // Neither the activity nor its ancestors may be disabled or have
+    // exhausted their limits
+    return !this.getActivityPath(activity).some((node) => this.checkActivityProcess(node));
   }
 
-  private checkPreConditions(activity: Activity): boolean {
-    const sequencing = activity.sequencingDefinition;
-    if (!sequencing?.sequencingRules?.preConditionRule) {
-      return true;
-    }
-
-    for (const rule of sequencing.sequencingRules.preConditionRule) {
-      if (!this.evaluateSequencingRule(rule, activity)) {
-        return false;
-      }
-    }
+  // Check Activity Process [UP.5]: true when the activity may not be delivered
+  private checkActivityProcess(activity: Activity): boolean {
+    return (
+      this.sequencingRulesCheckProcess(activity, "preConditionRule", ["disabled"]) !== null ||
+      this.isLimitConditionViolated(activity)
+    );
+  }
 
-    return true;
+  // An activity is hidden from choice when it or an ancestor has an
+  // applicable hiddenFromChoice rule
+  private isHiddenFromChoice(activity: Activity): boolean {
+    return this.getActivityPath(activity).some(
+      (node) => this.sequencingRulesCheckProcess(node, "preConditionRule", ["hiddenFromChoice"]) !== null
+    );
   }
 
   private evaluateSequencingRule(rule: SCORMRule, activity: Activity): boolean {
-    console.log(`[Rule Evaluation] Rule: ${rule.action}, Combination: ${rule.conditionCombination}`);
+    this.trace("Rule Evaluation", `Rule: ${rule.action}, Combination: ${rule.conditionCombination}`, activity);
     
     const conditionResults: boolean[] = [];
     
     for (const condition of rule.ruleConditions) {
       const result = this.evaluateRuleCondition(condition, activity);
       conditionResults.push(result);
-      console.log(`[Rule Evaluation] Condition: ${condition.condition}, Result: ${result}`);
+      this.trace("Rule Evaluation", `Condition: ${condition.condition}, Result: ${result}`, activity);
     }
     
     // Apply combination logic
@@ -557,7 +1050,7 @@ export class SCORMSequencingEngine {
       ruleResult = conditionResults.some(result => result);
     }
     
-    console.log(`[Rule Evaluation] Final Rule Result: ${ruleResult}`);
+    this.trace("Rule Evaluation", `Final Rule Result: ${ruleResult}`, activity);
     return ruleResult;
   }
 
@@ -566,6 +1059,10 @@ export class SCORMSequencingEngine {
     let result = false;
     
     switch (condition.condition) {
+      case "always":
+        result = true;
+        break;
+
       case "satisfied":
         result = this.getObjectiveSatisfiedStatus(activity, condition.referenceObjective);
         break;
@@ -606,7 +1103,7 @@ export class SCORMSequencingEngine {
         break;
         
       case "attempted":
-        result = state.attemptProgressStatus;
+        result = state.activityAttemptCount > 0;
         break;
         
       case "attemptLimitExceeded":
@@ -622,7 +1119,7 @@ export class SCORMSequencingEngine {
         break;
         
       default:
-        console.log(`[Rule Evaluation] Unknown condition: ${condition.condition}`);
+        this.trace("Rule Evaluation", `Unknown condition: ${condition.condition}`, activity);
         result = false;
     }
     
@@ -634,193 +1131,249 @@ export class SCORMSequencingEngine {
     return result;
   }
 
-  private sequencingRulesCheckProcess(activity: Activity, event: "entry" | "exit"): void {
-    console.log(`[UP.2] Sequencing Rules Check Process - ${event} for ${activity.identifier}`);
-    
-    const sequencing = activity.sequencingDefinition;
-    if (!sequencing?.sequencingRules) {
-      return;
-    }
-    
-    let rulesToCheck: SCORMRule[] = [];
-    
-    switch (event) {
-      case "entry":
-        rulesToCheck = sequencing.sequencingRules.preConditionRule || [];
-        break;
-      case "exit":
-        rulesToCheck = [...(sequencing.sequencingRules.exitConditionRule || []), 
-                        ...(sequencing.sequencingRules.postConditionRule || [])];
-        break;
-    }
-    
-    for (const rule of rulesToCheck) {
-      const ruleResult = this.evaluateSequencingRule(rule, activity);
-      
-      if (ruleResult) {
-        console.log(`[UP.2] Rule triggered - Action: ${rule.action}`);
-        this.executeRuleAction(rule.action, activity);
+  // Sequencing Rules Check Process [UP.2]
+  // Returns the action of the first rule of the given type, in document
+  // order, whose action is in the set and whose conditions are met
+  private sequencingRulesCheckProcess(
+    activity: Activity,
+    ruleType: SequencingRuleType,
+    actions: string[]
+  ): string | null {
+    const rules = activity.sequencingDefinition?.sequencingRules?.[ruleType] || [];
+    
+    for (const rule of rules) {
+      if (!actions.includes(rule.action)) {
+        continue;
       }
-    }
-  }
 
-  private executeRuleAction(action: string, activity: Activity): void {
-    console.log(`[Rule Action] Executing: ${action} for ${activity.identifier}`);
-    
-    switch (action) {
-      case "skip":
-        // Mark activity as skipped
-        activity.activityStateInformation.activityProgressStatus = true;
-        activity.activityStateInformation.activityCompletionStatus = true;
-        break;
-        
-      case "disabled":
-        // Disable the activity
-        break;
-        
-      case "hiddenFromChoice":
-        // Hide from choice navigation
-        break;
-        
-      case "stopForwardTraversal":
-        // Stop forward traversal
-        break;
-        
-      case "exitParent":
-        // Exit to parent activity
-        break;
-        
-      case "exitAll":
-        // Exit all activities
-        this.endSession = true;
-        break;
-        
-      case "retry":
-        // Retry the activity
-        this.resetActivityState(activity);
-        break;
-        
-      case "retryAll":
-        // Retry all activities
-        this.resetAllActivityStates();
-        break;
-        
-      default:
-        console.log(`[Rule Action] Unknown action: ${action}`);
+      const result = this.evaluateSequencingRule(rule, activity);
+      this.emit("ruleEvaluated", { activityId: activity.identifier, ruleType, action: rule.action, result });
+      if (result) {
+        this.trace("UP.2", `Rule triggered on ${activity.identifier} - Action: ${rule.action}`, activity);
+        return rule.action;
+      }
     }
+    
+    return null;
   }
 
+  // Overall Rollup Process [RB.1.5]
+  // Rolls tracking status up from the activity's parent to the root
   private rollupProcess(activity: Activity): void {
-    console.log(`[RB.1.5] Rollup Process for ${activity.identifier}`);
+    this.trace("RB.1.5", `Rollup Process for ${activity.identifier}`, activity);
     
-    // Start rollup from current activity and work up the tree
-    let currentActivity: Activity | undefined = activity;
-    
-    while (currentActivity) {
-      this.rollupActivityState(currentActivity);
-      currentActivity = currentActivity.parent;
-    }
-  }
+    for (const node of this.getActivityPath(activity)) {
+      if (node.isLeaf) {
+        continue;
+      }
 
-  private rollupActivityState(activity: Activity): void {
-    console.log(`[Rollup] Processing activity: ${activity.identifier}`);
-    
-    // If this is a leaf activity, nothing to rollup
-    if (activity.isLeaf) {
-      return;
-    }
-    
-    const sequencing = activity.sequencingDefinition;
-    
-    // Apply rollup rules if defined
-    if (sequencing?.rollupRules?.rollupRule) {
-      for (const rule of sequencing.rollupRules.rollupRule) {
-        this.applyRollupRule(rule, activity);
+      const before = this.getRollupStatus(node);
+      this.measureRollupProcess(node);
+      this.objectiveRollupProcess(node);
+      this.activityProgressRollupProcess(node);
+
+      const after = this.getRollupStatus(node);
+      for (const status of ["satisfied", "completed", "measure"] as const) {
+        if (before[status] !== after[status]) {
+          this.emit("rollupChanged", {
+            activityId: node.identifier,
+            status,
+            previous: before[status],
+            current: after[status],
+          });
+        }
       }
-    } else {
-      // Apply default rollup behavior
-      this.applyDefaultRollup(activity);
     }
   }
 
-  private applyRollupRule(rule: any, activity: Activity): void {
-    // Evaluate rollup rule conditions against child activities
-    console.log(`[Rollup Rule] Applying rule with action: ${rule.action}`);
-    
-    const childResults: boolean[] = [];
-    
-    for (const child of activity.children) {
-      for (const condition of rule.conditions) {
-        const result = this.evaluateRuleCondition(condition, child);
-        childResults.push(result);
+  // Rolled-up status, undefined where unknown
+  private getRollupStatus(activity: Activity): Record<"satisfied" | "completed" | "measure", boolean | number | undefined> {
+    const state = activity.activityStateInformation;
+    const objective = this.getObjective(activity);
+    return {
+      satisfied: objective?.objectiveProgressStatus ? objective.objectiveSatisfiedStatus : undefined,
+      completed: state.activityProgressStatus ? state.activityCompletionStatus : undefined,
+      measure: this.getObjectiveMeasure(activity),
+    };
+  }
+
+  // Measure Rollup Process [RB.1.1]
+  // The weighted average of the tracked children's measures
+  private measureRollupProcess(activity: Activity): void {
+    let totalWeightedMeasure = 0;
+    let countedWeight = 0;
+    let validData = false;
+
+    for (const child of activity.children) {
+      if (!this.isTracked(child)) {
+        continue;
+      }
+
+      const weight = child.sequencingDefinition?.rollupRules?.objectiveMeasureWeight ?? 1;
+      countedWeight += weight;
+
+      const measure = this.getObjectiveMeasure(child);
+      if (measure !== undefined) {
+        totalWeightedMeasure += measure * weight;
+        validData = true;
       }
     }
-    
-    // Apply combination logic
-    let ruleResult: boolean;
-    if (rule.conditionCombination === "all") {
-      ruleResult = childResults.every(result => result);
+
+    const objective = this.getOrCreateObjective(activity);
+    objective.objectiveMeasureStatus = validData && countedWeight > 0;
+    if (objective.objectiveMeasureStatus) {
+      objective.objectiveNormalizedMeasure = totalWeightedMeasure / countedWeight;
+    }
+    this.writeObjectiveMaps(activity);
+  }
+
+  // Objective Rollup Process [RB.1.2]
+  private objectiveRollupProcess(activity: Activity): void {
+    const primaryObjective = activity.sequencingDefinition?.objectives?.primaryObjective;
+    if (primaryObjective?.satisfiedByMeasure) {
+      this.objectiveRollupUsingMeasure(activity, primaryObjective.minNormalizedMeasure ?? 1);
     } else {
-      ruleResult = childResults.some(result => result);
+      this.objectiveRollupUsingRules(activity);
     }
-    
-    // Apply rollup action if rule is satisfied
-    if (ruleResult) {
-      this.executeRollupAction(rule.action, activity);
+  }
+
+  // Objective Rollup Using Measure [RB.1.2.a]
+  private objectiveRollupUsingMeasure(activity: Activity, minNormalizedMeasure: number): void {
+    const objective = this.getOrCreateObjective(activity);
+    const considerations = activity.sequencingDefinition?.rollupConsiderations;
+
+    // The measure of an activity still in progress only counts when
+    // measureSatisfactionIfActive allows it
+    const provisional =
+      activity.activityStateInformation.activityIsActive &&
+      considerations?.measureSatisfactionIfActive === false;
+
+    if (!objective.objectiveMeasureStatus || provisional) {
+      objective.objectiveProgressStatus = false;
+      return;
     }
+
+    objective.objectiveProgressStatus = true;
+    objective.objectiveSatisfiedStatus = objective.objectiveNormalizedMeasure >= minNormalizedMeasure;
+    this.writeObjectiveMaps(activity);
   }
 
-  private applyDefaultRollup(activity: Activity): void {
-    console.log(`[Default Rollup] Processing ${activity.identifier}`);
-    
-    // Default completion rollup: activity is complete if all children are complete
-    const allChildrenComplete = activity.children.every(child => 
-      child.activityStateInformation.activityProgressStatus && 
-      child.activityStateInformation.activityCompletionStatus
-    );
-    
-    if (allChildrenComplete) {
-      activity.activityStateInformation.activityProgressStatus = true;
-      activity.activityStateInformation.activityCompletionStatus = true;
+  // Objective Rollup Using Rules [RB.1.2.b]
+  private objectiveRollupUsingRules(activity: Activity): void {
+    if (this.rollupRuleCheckSubprocess(activity, "notSatisfied")) {
+      this.setObjectiveSatisfiedStatus(activity, false);
     }
-    
-    // Default satisfaction rollup: activity is satisfied if all children are satisfied
-    const allChildrenSatisfied = activity.children.every(child => 
-      this.getObjectiveSatisfiedStatus(child)
-    );
-    
-    if (allChildrenSatisfied) {
+    if (this.rollupRuleCheckSubprocess(activity, "satisfied")) {
       this.setObjectiveSatisfiedStatus(activity, true);
     }
   }
 
-  private executeRollupAction(action: string, activity: Activity): void {
-    console.log(`[Rollup Action] Executing: ${action} for ${activity.identifier}`);
-    
-    switch (action) {
-      case "satisfied":
-        this.setObjectiveSatisfiedStatus(activity, true);
-        break;
-        
-      case "notSatisfied":
-        this.setObjectiveSatisfiedStatus(activity, false);
-        break;
-        
-      case "completed":
-        activity.activityStateInformation.activityProgressStatus = true;
-        activity.activityStateInformation.activityCompletionStatus = true;
-        break;
-        
-      case "incomplete":
-        activity.activityStateInformation.activityProgressStatus = true;
-        activity.activityStateInformation.activityCompletionStatus = false;
-        break;
-        
+  // Activity Progress Rollup Process [RB.1.3]
+  private activityProgressRollupProcess(activity: Activity): void {
+    const state = activity.activityStateInformation;
+
+    if (this.rollupRuleCheckSubprocess(activity, "incomplete")) {
+      state.activityProgressStatus = true;
+      state.activityCompletionStatus = false;
+    }
+    if (this.rollupRuleCheckSubprocess(activity, "completed")) {
+      state.activityProgressStatus = true;
+      state.activityCompletionStatus = true;
+    }
+  }
+
+  // Rollup Rule Check Subprocess [RB.1.4]
+  // True when any of the activity's rules for the action applies
+  private rollupRuleCheckSubprocess(activity: Activity, action: RollupAction): boolean {
+    const definedRules = (activity.sequencingDefinition?.rollupRules?.rollupRule || []).filter(
+      (rule) => rule.action === action
+    );
+    const rules = definedRules.length > 0 ? definedRules : [DEFAULT_ROLLUP_RULES[action]];
+
+    return rules.some((rule) => this.evaluateRollupRule(rule, activity, action));
+  }
+
+  // Evaluate Rollup Conditions Subprocess [RB.1.4.1] for each contributing
+  // child, then apply the rule's child activity set
+  private evaluateRollupRule(rule: SCORMRollupRule, activity: Activity, action: RollupAction): boolean {
+    const childResults: boolean[] = [];
+
+    for (const child of activity.children) {
+      if (!this.checkChildForRollup(child, action)) {
+        continue;
+      }
+
+      const conditionResults = rule.conditions.map((condition) => this.evaluateRuleCondition(condition, child));
+      childResults.push(
+        rule.conditionCombination === "all"
+          ? conditionResults.every((result) => result)
+          : conditionResults.some((result) => result)
+      );
+    }
+
+    // Without contributing children the rule does not apply
+    if (childResults.length === 0) {
+      return false;
+    }
+
+    const trueCount = childResults.filter((result) => result).length;
+    switch (rule.childActivitySet || "all") {
+      case "all":
+        return trueCount === childResults.length;
+      case "any":
+        return trueCount > 0;
+      case "none":
+        return trueCount === 0;
+      case "atLeastCount":
+        return trueCount >= (rule.minimumCount ?? 0);
+      case "atLeastPercent":
+        return trueCount / childResults.length >= (rule.minimumPercent ?? 0);
+    }
+  }
+
+  // Check Child for Rollup Subprocess [RB.1.4.2]
+  private checkChildForRollup(child: Activity, action: RollupAction): boolean {
+    if (!this.isTracked(child)) {
+      return false;
+    }
+
+    const rollupRules = child.sequencingDefinition?.rollupRules;
+    const considerations = child.sequencingDefinition?.rollupConsiderations;
+    let required: string | undefined;
+
+    if (action === "satisfied" || action === "notSatisfied") {
+      if (rollupRules?.rollupObjectiveSatisfied === false) {
+        return false;
+      }
+      required = action === "satisfied"
+        ? considerations?.requiredForSatisfied
+        : considerations?.requiredForNotSatisfied;
+    } else {
+      if (rollupRules?.rollupProgressCompletion === false) {
+        return false;
+      }
+      required = action === "completed"
+        ? considerations?.requiredForCompleted
+        : considerations?.requiredForIncomplete;
+    }
+
+    const state = child.activityStateInformation;
+    switch (required) {
+      case "ifAttempted":
+        return state.activityAttemptCount > 0;
+      case "ifNotSkipped":
+        return this.sequencingRulesCheckProcess(child, "preConditionRule", ["skip"]) === null;
+      case "ifNotSuspended":
+        return !(state.activityAttemptCount > 0 && state.activityIsSuspended);
       default:
-        console.log(`[Rollup Action] Unknown action: ${action}`);
+        return true;
     }
   }
 
+  private isTracked(activity: Activity): boolean {
+    return activity.sequencingDefinition?.deliveryControls?.tracked !== false;
+  }
+
   // Helper methods for objective management
   private getObjectiveSatisfiedStatus(activity: Activity, objectiveId?: string): boolean {
     const objective = this.getObjective(activity, objectiveId);
@@ -841,30 +1394,114 @@ export class SCORMSequencingEngine {
     const objective = this.getOrCreateObjective(activity, objectiveId);
     objective.objectiveProgressStatus = true;
     objective.objectiveSatisfiedStatus = satisfied;
+    this.writeObjectiveMaps(activity, objectiveId);
+  }
+
+  private setObjectiveMeasure(activity: Activity, measure: number, objectiveId?: string): void {
+    const objective = this.getOrCreateObjective(activity, objectiveId);
+    objective.objectiveMeasureStatus = true;
+    objective.objectiveNormalizedMeasure = measure;
+    this.writeObjectiveMaps(activity, objectiveId);
   }
 
+  // The objective's status as seen by sequencing: local status, overridden by
+  // any global objective it reads from
   private getObjective(activity: Activity, objectiveId?: string): ObjectiveState | undefined {
-    const id = objectiveId || "_primary_";
-    return activity.activityStateInformation.objectives.get(id);
+    const local = activity.activityStateInformation.objectives.get(
+      this.resolveObjectiveId(activity, objectiveId)
+    );
+    const readMaps = this.getObjectiveMaps(activity, objectiveId).filter(
+      (map) => map.readSatisfiedStatus !== false || map.readNormalizedMeasure !== false
+    );
+    if (readMaps.length === 0) {
+      return local;
+    }
+
+    const objective: ObjectiveState = local ? { ...local } : this.createObjectiveState();
+    for (const map of readMaps) {
+      const global = this.session.globalObjectives.get(map.targetObjectiveID);
+      if (!global) {
+        continue;
+      }
+      if (map.readSatisfiedStatus !== false && global.objectiveProgressStatus) {
+        objective.objectiveProgressStatus = true;
+        objective.objectiveSatisfiedStatus = global.objectiveSatisfiedStatus;
+      }
+      if (map.readNormalizedMeasure !== false && global.objectiveMeasureStatus) {
+        objective.objectiveMeasureStatus = true;
+        objective.objectiveNormalizedMeasure = global.objectiveNormalizedMeasure;
+      }
+    }
+    return objective;
   }
 
   private getOrCreateObjective(activity: Activity, objectiveId?: string): ObjectiveState {
-    const id = objectiveId || "_primary_";
+    const id = this.resolveObjectiveId(activity, objectiveId);
     let objective = activity.activityStateInformation.objectives.get(id);
     
     if (!objective) {
-      objective = {
-        objectiveProgressStatus: false,
-        objectiveSatisfiedStatus: false,
-        objectiveMeasureStatus: false,
-        objectiveNormalizedMeasure: 0,
-      };
+      objective = this.createObjectiveState();
       activity.activityStateInformation.objectives.set(id, objective);
     }
     
     return objective;
   }
 
+  private createObjectiveState(): ObjectiveState {
+    return {
+      objectiveProgressStatus: false,
+      objectiveSatisfiedStatus: false,
+      objectiveMeasureStatus: false,
+      objectiveNormalizedMeasure: 0,
+    };
+  }
+
+  // The primary objective is stored as _primary_ whatever its objectiveID
+  private resolveObjectiveId(activity: Activity, objectiveId?: string): string {
+    const primaryId = activity.sequencingDefinition?.objectives?.primaryObjective?.objectiveID;
+    return !objectiveId || objectiveId === primaryId ? "_primary_" : objectiveId;
+  }
+
+  private getObjectiveMaps(activity: Activity, objectiveId?: string): SCORMMapInfo[] {
+    const objectives = activity.sequencingDefinition?.objectives;
+    const definition = this.resolveObjectiveId(activity, objectiveId) === "_primary_"
+      ? objectives?.primaryObjective
+      : objectives?.objective?.find((objective) => objective.objectiveID === objectiveId);
+    return definition?.mapInfo || [];
+  }
+
+  // Copy known local status to the global objectives the objective writes to.
+  // Reads default to enabled and writes to disabled.
+  private writeObjectiveMaps(activity: Activity, objectiveId?: string): void {
+    const local = activity.activityStateInformation.objectives.get(
+      this.resolveObjectiveId(activity, objectiveId)
+    );
+    if (!local) {
+      return;
+    }
+
+    for (const map of this.getObjectiveMaps(activity, objectiveId)) {
+      if (!map.writeSatisfiedStatus && !map.writeNormalizedMeasure) {
+        continue;
+      }
+
+      let global = this.session.globalObjectives.get(map.targetObjectiveID);
+      if (!global) {
+        global = this.createObjectiveState();
+        this.session.globalObjectives.set(map.targetObjectiveID, global);
+      }
+      if (map.writeSatisfiedStatus && local.objectiveProgressStatus) {
+        global.objectiveProgressStatus = true;
+        global.objectiveSatisfiedStatus = local.objectiveSatisfiedStatus;
+      }
+      if (map.writeNormalizedMeasure && local.objectiveMeasureStatus) {
+        global.objectiveMeasureStatus = true;
+        global.objectiveNormalizedMeasure = local.objectiveNormalizedMeasure;
+      }
+      this.trace("Objectives", `${activity.identifier} wrote global objective ${map.targetObjectiveID}`, activity);
+    }
+  }
+
   // Helper methods for limit checking
   private isAttemptLimitExceeded(activity: Activity): boolean {
     const sequencing = activity.sequencingDefinition;
@@ -874,21 +1511,45 @@ export class SCORMSequencingEngine {
       return false;
     }
     
-    // Count attempts for this activity
-    const attemptCount = this.getAttemptCount(activity);
-    return attemptCount >= attemptLimit;
+    return activity.activityStateInformation.activityAttemptCount >= attemptLimit;
   }
 
+  // Any of the attempt or activity duration limits has been reached
   private isTimeLimitExceeded(activity: Activity): boolean {
-    const sequencing = activity.sequencingDefinition;
-    const timeLimit = sequencing?.limitConditions?.activityAbsoluteDurationLimit;
-    
-    if (!timeLimit) {
+    const limits = activity.sequencingDefinition?.limitConditions;
+    if (!limits) {
       return false;
     }
-    
-    const duration = activity.activityStateInformation.activityAbsoluteDuration;
-    return duration >= this.parseTimeLimit(timeLimit);
+
+    // Rule evaluation also runs during look-ahead, so durations are read, not updated
+    const durations = this.getDurations(activity, Date.now());
+    const checks: Array<[string | undefined, number]> = [
+      [limits.attemptAbsoluteDurationLimit, durations.attemptAbsoluteDuration],
+      [limits.attemptExperiencedDurationLimit, durations.attemptExperiencedDuration],
+      [limits.activityAbsoluteDurationLimit, durations.activityAbsoluteDuration],
+      [limits.activityExperiencedDurationLimit, durations.activityExperiencedDuration],
+    ];
+
+    return checks.some(([limit, duration]) => {
+      const limitMs = limit ? this.parseTimeLimit(limit) : null;
+      return limitMs !== null && duration >= limitMs;
+    });
+  }
+
+  // Limit Conditions Check Process [UP.1]
+  private isLimitConditionViolated(activity: Activity): boolean {
+    const state = activity.activityStateInformation;
+
+    // Limits are only checked before a new attempt begins
+    if (state.activityIsActive || state.activityIsSuspended || state.attemptStartedAt !== undefined) {
+      return false;
+    }
+
+    return (
+      this.isAttemptLimitExceeded(activity) ||
+      this.isTimeLimitExceeded(activity) ||
+      this.isOutsideAvailableTimeRange(activity)
+    );
   }
 
   private isOutsideAvailableTimeRange(activity: Activity): boolean {
@@ -913,91 +1574,178 @@ export class SCORMSequencingEngine {
     return false;
   }
 
-  private getAttemptCount(activity: Activity): number {
-    // This would be tracked in the activity state
-    return 0; // Simplified for now
+  // Duration limits are ISO 8601 durations; a malformed limit is ignored
+  private parseTimeLimit(timeLimit: string): number | null {
+    const limit = parseISODuration(timeLimit);
+    if (limit === null) {
+      this.trace("Limit Conditions", `Ignoring malformed duration limit: ${timeLimit}`);
+    }
+    return limit;
   }
 
-  private parseTimeLimit(timeLimit: string): number {
-    // Parse ISO 8601 duration format
-    // Simplified implementation
-    return 0;
+  // Duration tracking. Absolute durations run from the start of the attempt
+  // (or the first attempt) including time suspended; experienced durations
+  // only count time while the activity, or one of its descendants, is
+  // delivered.
+  // Delivering an activity begins an attempt on it and on every ancestor
+  // that has no attempt in progress
+  private startDeliveryTiming(activity: Activity, now: number): void {
+    for (const node of this.getActivityPath(activity)) {
+      const state = node.activityStateInformation;
+      if (state.attemptStartedAt === undefined) {
+        this.beginAttempt(node, now);
+      }
+      state.deliveredAt ??= now;
+    }
   }
 
-  private resetActivityState(activity: Activity): void {
-    activity.activityStateInformation = this.initializeActivityState();
+  private stopDeliveryTiming(activity: Activity, now: number): void {
+    for (const node of this.getActivityPath(activity)) {
+      this.updateDurations(node, now);
+      node.activityStateInformation.deliveredAt = undefined;
+    }
   }
 
-  private resetAllActivityStates(): void {
-    this.resetActivityStateRecursive(this.session.activityTree);
+  private updateDurations(activity: Activity, now: number): void {
+    const state = activity.activityStateInformation;
+    Object.assign(state, this.getDurations(activity, now));
+    if (state.deliveredAt !== undefined) {
+      state.deliveredAt = now;
+    }
   }
 
-  private resetActivityStateRecursive(activity: Activity): void {
-    this.resetActivityState(activity);
-    for (const child of activity.children) {
-      this.resetActivityStateRecursive(child);
+  // The activity's durations as of now, without updating its state
+  private getDurations(activity: Activity, now: number): ActivityDurations {
+    const state = activity.activityStateInformation;
+    const durations: ActivityDurations = {
+      activityAbsoluteDuration: state.activityAbsoluteDuration,
+      activityExperiencedDuration: state.activityExperiencedDuration,
+      attemptAbsoluteDuration: state.attemptAbsoluteDuration,
+      attemptExperiencedDuration: state.attemptExperiencedDuration,
+    };
+
+    if (state.deliveredAt !== undefined) {
+      const elapsed = now - state.deliveredAt;
+      durations.attemptExperiencedDuration += elapsed;
+      durations.activityExperiencedDuration += elapsed;
+    }
+    // Absolute durations stop growing between attempts
+    if (state.attemptStartedAt !== undefined) {
+      durations.attemptAbsoluteDuration = now - state.attemptStartedAt;
+      if (state.activityStartedAt !== undefined) {
+        durations.activityAbsoluteDuration = now - state.activityStartedAt;
+      }
     }
+    return durations;
   }
 
-  private isChoiceValid(activity: Activity): boolean {
-    const sequencing = activity.sequencingDefinition;
-    return sequencing?.controlMode?.choice !== false;
+  private beginAttempt(activity: Activity, now: number): void {
+    const state = activity.activityStateInformation;
+    state.activityAttemptCount++;
+    state.attemptStartedAt = now;
+    state.attemptAbsoluteDuration = 0;
+    state.attemptExperiencedDuration = 0;
+    state.activityStartedAt ??= now;
+    this.trace("Attempts", `Attempt ${state.activityAttemptCount} begun on ${activity.identifier}`, activity);
   }
 
-  private isContinueAllowed(activity: Activity): boolean {
-    const sequencing = activity.sequencingDefinition;
-    return sequencing?.controlMode?.flow !== false;
+  // Ends the attempts on an activity and its ancestors, except suspended ones
+  private endAttemptsOnPath(activity: Activity): void {
+    for (const node of this.getActivityPath(activity)) {
+      if (!node.activityStateInformation.activityIsSuspended) {
+        this.endAttempt(node);
+      }
+    }
   }
 
-  private isPreviousAllowed(activity: Activity): boolean {
-    const sequencing = activity.sequencingDefinition;
-    return !sequencing?.controlMode?.forwardOnly;
+  // The attempt's durations keep their final values until the next attempt
+  // begins. Children chosen onEachNewAttempt are chosen now for that attempt.
+  private endAttempt(activity: Activity): void {
+    const state = activity.activityStateInformation;
+    this.updateDurations(activity, Date.now());
+    state.deliveredAt = undefined;
+    state.attemptStartedAt = undefined;
+    this.selectAndRandomizeChildren(activity);
   }
 
-  private getFirstChild(activity: Activity): Activity | null {
-    if (activity.children.length === 0) {
-      return null;
+  // Select Children [SR.1] and Randomize Children [SR.2] Processes. Runs
+  // before the first attempt on a cluster and, for onEachNewAttempt timing,
+  // after each attempt ends.
+  private selectAndRandomizeChildren(activity: Activity): void {
+    const state = activity.activityStateInformation;
+    const controls = activity.sequencingDefinition?.randomizationControls;
+    if (activity.isLeaf || !controls || state.activityIsActive || state.activityIsSuspended) {
+      return;
     }
-    return activity.children[0];
-  }
 
-  private getNextChild(activity: Activity): Activity | null {
-    if (!this.session.currentActivity || !this.session.currentActivity.parent) {
-      return null;
+    const isFirstAttempt = state.activityAttemptCount === 0;
+    const selectionDue = controls.selectionTiming === "onEachNewAttempt" ||
+      (controls.selectionTiming === "once" && isFirstAttempt);
+    const randomizationDue = controls.randomizationTiming === "onEachNewAttempt" ||
+      (controls.randomizationTiming === "once" && isFirstAttempt);
+
+    if (selectionDue && controls.selectCount !== undefined && controls.selectCount < activity.allChildren.length) {
+      // Selected children keep their manifest order
+      const selected = new Set(shuffle(activity.allChildren, this.random).slice(0, controls.selectCount));
+      activity.children = activity.allChildren.filter((child) => selected.has(child));
+      this.trace("SR.1", `Selected ${controls.selectCount} children of ${activity.identifier}`, activity);
     }
 
-    const parent = this.session.currentActivity.parent;
-    const siblings = parent.children;
-    const currentIndex = siblings.findIndex(child => child.identifier === this.session.currentActivity!.identifier);
-    
-    if (currentIndex === -1 || currentIndex === siblings.length - 1) {
-      return null;
+    if (randomizationDue && controls.reorderChildren) {
+      activity.children = shuffle(activity.children, this.random);
+      this.trace("SR.2", `Randomized children of ${activity.identifier}`, activity);
     }
-    
-    return siblings[currentIndex + 1];
   }
 
-  private getPreviousChild(activity: Activity): Activity | null {
-    if (!this.session.currentActivity || !this.session.currentActivity.parent) {
-      return null;
+  // Visits every activity in the tree, including children not selected
+  private forEachActivity(activity: Activity, callback: (activity: Activity) => void): void {
+    callback(activity);
+    for (const child of activity.allChildren) {
+      this.forEachActivity(child, callback);
     }
+  }
 
-    const parent = this.session.currentActivity.parent;
-    const siblings = parent.children;
-    const currentIndex = siblings.findIndex(child => child.identifier === this.session.currentActivity!.identifier);
-    
-    if (currentIndex <= 0) {
+  // The activity and its ancestors, starting with the activity itself
+  private getActivityPath(activity: Activity): Activity[] {
+    const path: Activity[] = [];
+    for (let node: Activity | undefined = activity; node; node = node.parent) {
+      path.push(node);
+    }
+    return path;
+  }
+
+  // Control modes are defined on a cluster and govern navigation among its
+  // children. Defaults per the specification: choice true, flow false,
+  // forwardOnly false.
+  private getParentControlMode(activity: Activity): SCORMControlMode | undefined {
+    return activity.parent?.sequencingDefinition?.controlMode;
+  }
+
+  private isChoiceValid(activity: Activity): boolean {
+    return this.getParentControlMode(activity)?.choice !== false;
+  }
+
+  private isContinueAllowed(activity: Activity): boolean {
+    return this.getParentControlMode(activity)?.flow === true;
+  }
+
+  private isPreviousAllowed(activity: Activity): boolean {
+    const controlMode = this.getParentControlMode(activity);
+    return controlMode?.flow === true && controlMode.forwardOnly !== true;
+  }
+
+  private getFirstChild(activity: Activity): Activity | null {
+    if (activity.children.length === 0) {
       return null;
     }
-    
-    return siblings[currentIndex - 1];
+    return activity.children[0];
   }
 
-  private getNextActivityInTree(activity: Activity): Activity | null {
+  private getNextActivityInTree(activity: Activity, considerChildren: boolean = true): Activity | null {
     // SCORM 2004 Tree Traversal Algorithm - Forward Direction
     
     // Step 1: If activity has children, return first child
-    if (activity.children.length > 0) {
+    if (considerChildren && activity.children.length > 0) {
       return activity.children[0];
     }
     
@@ -1079,23 +1827,50 @@ export class SCORMSequencingEngine {
     return this.getLastDescendant(lastChild);
   }
 
-  private getFirstDeliverableDescendant(activity: Activity): Activity | null {
-    // Find the first deliverable descendant in the tree
-    if (this.isActivityDeliverable(activity)) {
-      return activity;
+  private emit<T extends SequencingEventType>(type: T, event: SequencingEventMap[T]): void {
+    if (this.lookAheadDepth === 0) {
+      this.events.emit(type, event);
     }
-    
-    for (const child of activity.children) {
-      const deliverable = this.getFirstDeliverableDescendant(child);
-      if (deliverable) {
-        return deliverable;
-      }
+  }
+
+  // Diagnostics for the trace event; nothing is built without a listener
+  private trace(process: string, message: string, activity?: Activity | string): void {
+    if (this.lookAheadDepth > 0 || !this.events.hasListeners("trace")) {
+      return;
+    }
+    this.events.emit("trace", {
+      process,
+      message,
+      activityId: typeof activity === "string" ? activity : activity?.identifier,
+      timestamp: Date.now(),
+    });
+  }
+
+  // Runs a preview of sequencing decisions without reporting them
+  private lookAhead<T>(preview: () => T): T {
+    this.lookAheadDepth++;
+    try {
+      return preview();
+    } finally {
+      this.lookAheadDepth--;
     }
-    
-    return null;
   }
 
   // Public API
+
+  /**
+   * Listen for sequencing decisions
+   * @param type - Event name, e.g. activityDelivered or trace
+   * @returns A function that removes the listener
+   */
+  public on<T extends SequencingEventType>(type: T, listener: SequencingEventListener<T>): () => void {
+    return this.events.on(type, listener);
+  }
+
+  public off<T extends SequencingEventType>(type: T, listener: SequencingEventListener<T>): void {
+    this.events.off(type, listener);
+  }
+
   public startSequence(): string | null {
     const activity = this.overallSequencingProcess("start");
     return activity?.identifier || null;
@@ -1110,20 +1885,273 @@ export class SCORMSequencingEngine {
     return this.session.currentActivity?.identifier;
   }
 
+  /**
+   * Whether global objectives are shared with other courses for the learner
+   * (adlseq:objectivesGlobalToSystem, default true) or scoped to this course
+   */
+  public isObjectivesGlobalToSystem(): boolean {
+    return this.organization.objectivesGlobalToSystem !== false;
+  }
+
+  /**
+   * Snapshot of the global shared objectives, for persisting between attempts
+   */
+  public getGlobalObjectives(): Record<string, ObjectiveState> {
+    const objectives: Record<string, ObjectiveState> = {};
+    for (const [id, objective] of this.session.globalObjectives) {
+      objectives[id] = { ...objective };
+    }
+    return objectives;
+  }
+
+  /**
+   * Restore global shared objectives saved from an earlier attempt
+   * @param objectives - Objectives keyed by target objective ID
+   */
+  public setGlobalObjectives(objectives: Record<string, ObjectiveState>): void {
+    for (const [id, objective] of Object.entries(objectives)) {
+      this.session.globalObjectives.set(id, { ...objective });
+    }
+  }
+
+  /**
+   * Whether an activity is part of the activity tree for the current attempt.
+   * Children left out by selection are not.
+   * @param activityId - Item identifier of the activity
+   */
+  public isActivityAvailable(activityId: string): boolean {
+    return this.findActivity(activityId) !== null;
+  }
+
+  /**
+   * Available children of each cluster, in delivery order, for persisting
+   * the outcome of selection and randomization with the learner's attempt
+   */
+  public getChildOrder(): Record<string, string[]> {
+    const order: Record<string, string[]> = {};
+    this.forEachActivity(this.session.activityTree, (activity) => {
+      if (!activity.isLeaf) {
+        order[activity.identifier] = activity.children.map((child) => child.identifier);
+      }
+    });
+    return order;
+  }
+
+  /**
+   * Restore a child order saved with getChildOrder. Call before startSequence.
+   * @param order - Available child identifiers keyed by cluster identifier
+   */
+  public setChildOrder(order: Record<string, string[]>): void {
+    this.forEachActivity(this.session.activityTree, (activity) => {
+      const childIds = order[activity.identifier];
+      if (activity.isLeaf || !childIds) {
+        return;
+      }
+
+      const children = childIds
+        .map((id) => activity.allChildren.find((child) => child.identifier === id))
+        .filter((child): child is Activity => child !== undefined);
+      if (children.length > 0) {
+        activity.children = children;
+      }
+    });
+  }
+
+  /**
+   * Activities the learner may currently choose, in tree order. Choosing a
+   * cluster delivers its first deliverable descendant.
+   */
+  public getValidChoiceTargets(): string[] {
+    const targets: string[] = [];
+    const visit = (activity: Activity) => {
+      if (!activity.isRoot && !this.checkChoiceTarget(activity) && this.getChoiceDelivery(activity)) {
+        targets.push(activity.identifier);
+      }
+      activity.children.forEach(visit);
+    };
+
+    if (!this.endSession) {
+      this.lookAhead(() => visit(this.session.activityTree));
+    }
+    return targets;
+  }
+
+  /**
+   * Whether an activity should be left out of the table of contents because a
+   * hiddenFromChoice rule applies to it or an ancestor
+   * @param activityId - The activity identifier
+   */
+  public isActivityHiddenFromChoice(activityId: string): boolean {
+    const activity = this.findActivity(activityId);
+    return activity ? this.lookAhead(() => this.isHiddenFromChoice(activity)) : false;
+  }
+
+  /**
+   * The activity resumeAll will deliver, if the learner suspended the course
+   */
+  public getSuspendedActivity(): string | undefined {
+    return this.session.suspendedActivity?.identifier;
+  }
+
+  /**
+   * Snapshot of the sequencing state as plain JSON, for saving between
+   * sessions. Restore it with importState on a new engine for the same manifest.
+   */
+  public exportState(): SequencingStateSnapshot {
+    if (this.session.currentActivity) {
+      const now = Date.now();
+      for (const activity of this.getActivityPath(this.session.currentActivity)) {
+        this.updateDurations(activity, now);
+      }
+    }
+
+    const activities: Record<string, ActivityStateSnapshot> = {};
+    this.forEachActivity(this.session.activityTree, (activity) => {
+      const { objectives, ...state } = activity.activityStateInformation;
+      delete state.deliveredAt;
+      activities[activity.identifier] = {
+        ...state,
+        objectives: Object.fromEntries(
+          Array.from(objectives, ([id, objective]) => [id, { ...objective }])
+        ),
+      };
+    });
+
+    return {
+      version: SEQUENCING_STATE_VERSION,
+      activities,
+      childOrder: this.getChildOrder(),
+      suspendedActivity: this.session.suspendedActivity?.identifier,
+    };
+  }
+
+  /**
+   * Restore a snapshot from exportState on a new engine, then process
+   * resumeAll to deliver the suspended activity. Only a suspended course
+   * attempt is restored: any other snapshot is from an attempt that ended,
+   * and the next session begins a new one.
+   * @param snapshot - State exported for the same manifest
+   * @returns false if the snapshot has no suspended activity and was ignored
+   */
+  public importState(snapshot: SequencingStateSnapshot): boolean {
+    if (snapshot.version !== SEQUENCING_STATE_VERSION) {
+      throw new Error(`Unsupported sequencing state version: ${snapshot.version}`);
+    }
+    const suspendedActivity = snapshot.suspendedActivity
+      ? this.findActivity(snapshot.suspendedActivity)
+      : null;
+    if (!suspendedActivity) {
+      this.trace("State", "Ignoring sequencing state without a suspended activity");
+      return false;
+    }
+
+    this.setChildOrder(snapshot.childOrder);
+    this.forEachActivity(this.session.activityTree, (activity) => {
+      const saved = snapshot.activities[activity.identifier];
+      if (!saved) {
+        return;
+      }
+
+      // Nothing is delivered until the next navigation request
+      activity.activityStateInformation = {
+        ...saved,
+        activityIsActive: false,
+        objectives: new Map(
+          Object.entries(saved.objectives).map(([id, objective]) => [id, { ...objective }])
+        ),
+      };
+    });
+
+    this.session.currentActivity = undefined;
+    this.session.suspendedActivity = suspendedActivity;
+    this.endSession = false;
+    return true;
+  }
+
+  public isSessionEnded(): boolean {
+    return this.endSession;
+  }
+
+  /**
+   * Attempts used on an activity and its attempt limit, if any
+   * @param activityId - The activity identifier
+   * @returns null if the activity does not exist
+   */
+  public getAttemptInfo(activityId: string): { attemptCount: number; attemptLimit?: number } | null {
+    const activity = this.findActivity(activityId);
+    if (!activity) {
+      return null;
+    }
+
+    return {
+      attemptCount: activity.activityStateInformation.activityAttemptCount,
+      attemptLimit: activity.sequencingDefinition?.limitConditions?.attemptLimit || undefined,
+    };
+  }
+
+  /**
+   * Record the tracking results of a delivered activity before the next
+   * navigation request is processed, so rules and rollup see them
+   * @param activityId - The activity whose SCO terminated
+   * @param results - Values taken from the SCO's CMI data model
+   */
+  public reportRuntimeResults(activityId: string, results: ActivityRuntimeResults): void {
+    const activity = this.findActivity(activityId);
+    if (!activity) {
+      this.trace("Runtime Results", `Unknown activity: ${activityId}`, activityId);
+      return;
+    }
+
+    const state = activity.activityStateInformation;
+    state.attemptProgressStatus = true;
+
+    if (results.completionStatus === "completed" || results.completionStatus === "incomplete") {
+      const completed = results.completionStatus === "completed";
+      state.activityProgressStatus = true;
+      state.activityCompletionStatus = completed;
+      state.attemptCompletionStatus = completed;
+    }
+
+    if (results.successStatus === "passed" || results.successStatus === "failed") {
+      this.setObjectiveSatisfiedStatus(activity, results.successStatus === "passed");
+    }
+
+    if (results.scoreScaled !== undefined && !isNaN(results.scoreScaled)) {
+      this.setObjectiveMeasure(activity, results.scoreScaled);
+    }
+
+    // Objectives the SCO reports by the objectiveID used in the manifest
+    for (const objective of results.objectives || []) {
+      if (objective.successStatus === "passed" || objective.successStatus === "failed") {
+        this.setObjectiveSatisfiedStatus(activity, objective.successStatus === "passed", objective.id);
+      }
+      if (objective.scoreScaled !== undefined && !isNaN(objective.scoreScaled)) {
+        this.setObjectiveMeasure(activity, objective.scoreScaled, objective.id);
+      }
+    }
+
+    state.activityIsSuspended = results.exit === "suspend";
+    this.trace("Runtime Results", `Recorded results for ${activityId}: ${JSON.stringify(results)}`, activityId);
+  }
+
+  /**
+   * Navigation requests the learner can make from the current activity
+   * @returns The requests, or none once the session has ended
+   */
   public getAvailableNavigationRequests(): string[] {
     const available: string[] = [];
     
-    if (!this.session.currentActivity) {
+    if (!this.session.currentActivity || this.endSession) {
       return available;
     }
 
     const activity = this.session.currentActivity;
     
-    if (this.isContinueAllowed(activity)) {
+    if (this.isContinueAllowed(activity) && this.lookAhead(() => this.flowSubprocess(activity, false).activity)) {
       available.push("continue");
     }
     
-    if (this.isPreviousAllowed(activity)) {
+    if (this.isPreviousAllowed(activity) && this.lookAhead(() => this.flowSubprocess(activity, false, true).activity)) {
       available.push("previous");
     }
     
@@ -1131,8 +2159,8 @@ export class SCORMSequencingEngine {
       available.push("choice");
     }
     
-    available.push("exit", "exitAll", "abandon", "abandonAll");
+    available.push("exit", "exitAll", "suspendAll", "abandon", "abandonAll");
     
     return available;
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,129 @@
+// SCORM Sequencing Events
+// The sequencing engine reports its decisions as typed events, and can keep a
+// structured trace of every process it runs, so hosts, authoring tools and
+// tests can see why an activity was delivered, skipped or disabled.
+
+export interface SequencingEventMap {
+  navigationRequested: {
+    request: string;
+    targetId?: string;
+    valid: boolean;
+    exception?: string; // Why the request was rejected
+  };
+  ruleEvaluated: {
+    activityId: string;
+    ruleType: "preConditionRule" | "exitConditionRule" | "postConditionRule";
+    action: string;
+    result: boolean; // Whether the rule's conditions were met
+  };
+  activityDelivered: {
+    activityId: string;
+    attemptCount: number;
+  };
+  rollupChanged: {
+    activityId: string;
+    status: "satisfied" | "completed" | "measure";
+    previous: boolean | number | undefined; // undefined while unknown
+    current: boolean | number | undefined;
+  };
+  sessionEnded: {
+    request: string; // The sequencing request that ended the session
+    suspendedActivityId?: string;
+  };
+  trace: SequencingTraceEntry;
+}
+
+export type SequencingEventType = keyof SequencingEventMap;
+
+export type SequencingEventListener<T extends SequencingEventType> = (
+  event: SequencingEventMap[T]
+) => void;
+
+export interface SequencingTraceEntry {
+  process: string; // Pseudo-code process, e.g. SB.2.3, or an area such as Attempts
+  message: string;
+  activityId?: string;
+  timestamp: number; // ms since epoch
+}
+
+export class SequencingEventEmitter {
+  private listeners: { [T in SequencingEventType]?: Set<SequencingEventListener<T>> } = {};
+
+  /**
+   * Listen for an event
+   * @returns A function that removes the listener
+   */
+  on<T extends SequencingEventType>(type: T, listener: SequencingEventListener<T>): () => void {
+    const listeners: Set<SequencingEventListener<T>> = this.listeners[type] ?? new Set();
+    listeners.add(listener);
+    (this.listeners as Record<T, Set<SequencingEventListener<T>>>)[type] = listeners;
+    return () => this.off(type, listener);
+  }
+
+  off<T extends SequencingEventType>(type: T, listener: SequencingEventListener<T>): void {
+    this.listeners[type]?.delete(listener);
+  }
+
+  emit<T extends SequencingEventType>(type: T, event: SequencingEventMap[T]): void {
+    this.listeners[type]?.forEach((listener) => {
+      try {
+        listener(event);
+      } catch (error) {
+        console.error(`[Sequencing Events] Listener for ${type} failed:`, error);
+      }
+    });
+  }
+
+  hasListeners(type: SequencingEventType): boolean {
+    return (this.listeners[type]?.size ?? 0) > 0;
+  }
+}
+
+/**
+ * Collects trace entries from one or more engines, e.g.
+ *   const recorder = new SequencingTraceRecorder();
+ *   recorder.attach(engine);
+ */
+export class SequencingTraceRecorder {
+  private entries: SequencingTraceEntry[] = [];
+  private limit: number;
+
+  constructor(limit = 10000) {
+    this.limit = limit;
+  }
+
+  /**
+   * Start recording an engine's trace
+   * @returns A function that stops recording
+   */
+  attach(source: { on: SequencingEventEmitter["on"] }): () => void {
+    return source.on("trace", (entry) => this.record(entry));
+  }
+
+  record(entry: SequencingTraceEntry): void {
+    this.entries.push(entry);
+    // Oldest entries are dropped first
+    if (this.entries.length > this.limit) {
+      this.entries.splice(0, this.entries.length - this.limit);
+    }
+  }
+
+  getEntries(filter?: { process?: string; activityId?: string }): SequencingTraceEntry[] {
+    return this.entries.filter(
+      (entry) =>
+        (!filter?.process || entry.process === filter.process) &&
+        (!filter?.activityId || entry.activityId === filter.activityId)
+    );
+  }
+
+  clear(): void {
+    this.entries = [];
+  }
+
+  /**
+   * The trace as text, one "[process] message" line per entry
+   */
+  format(): string {
+    return this.entries.map((entry) => `[${entry.process}] ${entry.message}`).join("\n");
+  }
+}
@@ -0,0 +1,98 @@
+// SCORM Time Handling
+// Conversions between milliseconds and the two duration formats used by the
+// runtime: SCORM 1.2 CMITimespan (HHHH:MM:SS.SS) and SCORM 2004 ISO 8601
+// durations (P[nY][nM][nD][T[nH][nM][n[.n]S]]).
+
+import { SCORMVersion } from "@/types/scorm";
+
+const CMI_TIMESPAN_PATTERN = /^(\d{2,4}):(\d{2}):(\d{2}(?:\.\d{1,2})?)$/;
+const ISO_DURATION_PATTERN =
+  /^P(?:(\d+(?:\.\d+)?)Y)?(?:(\d+(?:\.\d+)?)M)?(?:(\d+(?:\.\d+)?)D)?(?:T(?:(\d+(?:\.\d+)?)H)?(?:(\d+(?:\.\d+)?)M)?(?:(\d+(?:\.\d+)?)S)?)?$/;
+
+const SECOND = 1000;
+const MINUTE = 60 * SECOND;
+const HOUR = 60 * MINUTE;
+const DAY = 24 * HOUR;
+// ISO 8601 does not fix the length of years and months; SCORM conformance
+// tests use 365 and 30 days
+const MONTH = 30 * DAY;
+const YEAR = 365 * DAY;
+
+/**
+ * Parse a SCORM 1.2 CMITimespan
+ * @returns The duration in milliseconds, or null if the value is malformed
+ */
+export function parseCMITimespan(value: string): number | null {
+  const match = CMI_TIMESPAN_PATTERN.exec(value.trim());
+  if (!match) return null;
+
+  const [, hours, minutes, seconds] = match;
+  return Math.round(
+    parseInt(hours, 10) * HOUR + parseInt(minutes, 10) * MINUTE + parseFloat(seconds) * SECOND
+  );
+}
+
+/**
+ * Format milliseconds as a SCORM 1.2 CMITimespan, e.g. 0001:02:03.40
+ */
+export function formatCMITimespan(milliseconds: number): string {
+  const centiseconds = Math.max(0, Math.round(milliseconds / 10));
+  const hours = Math.min(Math.floor(centiseconds / 360000), 9999);
+  const minutes = Math.floor((centiseconds % 360000) / 6000);
+  const seconds = (centiseconds % 6000) / 100;
+
+  return `${String(hours).padStart(4, "0")}:${String(minutes).padStart(2, "0")}:${seconds
+    .toFixed(2)
+    .padStart(5, "0")}`;
+}
+
+/**
+ * Parse a SCORM 2004 ISO 8601 duration
+ * @returns The duration in milliseconds, or null if the value is malformed
+ */
+export function parseISODuration(value: string): number | null {
+  const trimmed = value.trim();
+  const match = ISO_DURATION_PATTERN.exec(trimmed);
+  if (!match || trimmed === "P" || trimmed.endsWith("T")) return null;
+
+  const [years, months, days, hours, minutes, seconds] = match
+    .slice(1)
+    .map((part) => (part ? parseFloat(part) : 0));
+  return Math.round(
+    years * YEAR +
+      months * MONTH +
+      days * DAY +
+      hours * HOUR +
+      minutes * MINUTE +
+      seconds * SECOND
+  );
+}
+
+/**
+ * Format milliseconds as a SCORM 2004 ISO 8601 duration, e.g. PT1H2M3.4S
+ */
+export function formatISODuration(milliseconds: number): string {
+  const centiseconds = Math.max(0, Math.round(milliseconds / 10));
+  const hours = Math.floor(centiseconds / 360000);
+  const minutes = Math.floor((centiseconds % 360000) / 6000);
+  const seconds = (centiseconds % 6000) / 100;
+
+  return `PT${hours}H${minutes}M${Number(seconds.toFixed(2))}S`;
+}
+
+/**
+ * Parse a duration in the format of the given SCORM version
+ * @returns The duration in milliseconds, or null if the value is malformed
+ */
+export function parseSCORMDuration(value: string, version: SCORMVersion): number | null {
+  return version === "1.2" ? parseCMITimespan(value) : parseISODuration(value);
+}
+
+/**
+ * Format a duration in the format of the given SCORM version
+ */
+export function formatSCORMDuration(milliseconds: number, version: SCORMVersion): string {
+  return version === "1.2"
+    ? formatCMITimespan(milliseconds)
+    : formatISODuration(milliseconds);
+}
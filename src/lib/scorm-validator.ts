@@ -1,7 +1,13 @@
 /* eslint-disable @typescript-eslint/no-explicit-any */
 // SCORM Package Validator
 
-import { SCORMPackage, SCORMManifest } from "@/types/scorm";
+import { SCORMPackage, SCORMManifest, SCORMItem } from "@/types/scorm";
+import {
+  SCORM_NAMESPACES,
+  getEditionLabel,
+  getSCORMVersion,
+} from "@/lib/scorm-edition";
+import { isAbsoluteUrl, resolveXmlBase } from "@/lib/scorm-xml-base";
 
 export interface ValidationResult {
   isValid: boolean;
@@ -53,6 +59,11 @@ export class SCORMValidator {
       warnings.push("Manifest version is missing, using default");
     }
 
+    // Validate SCORM edition
+    const editionResult = this.validateEdition(manifest);
+    errors.push(...editionResult.errors);
+    warnings.push(...editionResult.warnings);
+
     // Validate organizations
     if (!manifest.organizations || manifest.organizations.length === 0) {
       errors.push("At least one organization is required");
@@ -65,8 +76,22 @@ export class SCORMValidator {
           warnings.push(`Organization ${index} is missing title`);
         }
       });
+
+      if (
+        manifest.defaultOrganization &&
+        !manifest.organizations.some((org) => org.identifier === manifest.defaultOrganization)
+      ) {
+        errors.push(
+          `Default organization ${manifest.defaultOrganization} does not match any organization`
+        );
+      }
     }
 
+    // Validate sequencing references
+    const sequencingResult = this.validateSequencingReferences(manifest);
+    errors.push(...sequencingResult.errors);
+    warnings.push(...sequencingResult.warnings);
+
     // Validate resources
     if (!manifest.resources || manifest.resources.length === 0) {
       warnings.push("No resources found in manifest");
@@ -87,6 +112,86 @@ export class SCORMValidator {
     return { isValid: errors.length === 0, errors, warnings };
   }
 
+  private static validateEdition(manifest: SCORMManifest): ValidationResult {
+    const errors: string[] = [];
+    const warnings: string[] = [];
+    const label = getEditionLabel(manifest.edition);
+    const namespaceUris = Object.values(manifest.namespaces || {});
+
+    if (!manifest.schemaversion) {
+      warnings.push(
+        `Manifest does not declare a schemaversion, treating package as ${label}`
+      );
+    }
+
+    if (getSCORMVersion(manifest.edition) === "1.2") {
+      if (namespaceUris.includes(SCORM_NAMESPACES.ADLCP_2004)) {
+        warnings.push(
+          "Manifest declares SCORM 1.2 but uses the SCORM 2004 adlcp namespace"
+        );
+      }
+
+      const usesSequencing = manifest.organizations.some(
+        (org) => org.sequencing || this.itemsUseSequencing(org.items)
+      );
+      if (usesSequencing) {
+        errors.push(
+          "Manifest contains SCORM 2004 sequencing information but is identified as SCORM 1.2"
+        );
+      }
+    } else if (namespaceUris.includes(SCORM_NAMESPACES.ADLCP_12)) {
+      warnings.push(
+        `Manifest declares ${label} but uses the SCORM 1.2 adlcp namespace`
+      );
+    }
+
+    return { isValid: errors.length === 0, errors, warnings };
+  }
+
+  private static validateSequencingReferences(manifest: SCORMManifest): ValidationResult {
+    const errors: string[] = [];
+    const warnings: string[] = [];
+    const ids = new Set<string>();
+
+    (manifest.sequencingCollection?.sequencing || []).forEach((sequencing, index) => {
+      if (!sequencing.id) {
+        errors.push(`Sequencing ${index} in sequencingCollection is missing ID`);
+      } else if (ids.has(sequencing.id)) {
+        errors.push(`Duplicate sequencing ID ${sequencing.id} in sequencingCollection`);
+      } else {
+        ids.add(sequencing.id);
+      }
+    });
+
+    const checkReference = (idRef: string | undefined, owner: string) => {
+      if (idRef && !ids.has(idRef)) {
+        errors.push(
+          `Sequencing IDRef ${idRef} on ${owner} does not match any sequencing in sequencingCollection`
+        );
+      }
+    };
+    const checkItems = (items: SCORMItem[]) => {
+      for (const item of items) {
+        checkReference(item.sequencing?.idRef, item.identifier);
+        checkItems(item.item || []);
+      }
+    };
+
+    for (const org of manifest.organizations || []) {
+      checkReference(org.sequencing?.idRef, org.identifier);
+      checkItems(org.items);
+    }
+
+    return { isValid: errors.length === 0, errors, warnings };
+  }
+
+  private static itemsUseSequencing(items: SCORMItem[]): boolean {
+    return items.some(
+      (item) =>
+        item.sequencing || (item.item ? this.itemsUseSequencing(item.item) : false)
+    );
+  }
+
   private static validateFiles(packageData: SCORMPackage): ValidationResult {
     const errors: string[] = [];
     const warnings: string[] = [];
@@ -118,10 +223,17 @@ export class SCORMValidator {
     // Validate resource files exist
     packageData.manifest.resources.forEach((resource) => {
       resource.files.forEach((file) => {
-        if (!packageData.files.has(file.href)) {
+        const path = resolveXmlBase(resource.base, file.href);
+        if (isAbsoluteUrl(path)) {
+          return;
+        }
+        const packageFile = packageData.files.get(path);
+        if (!packageFile) {
           errors.push(
-            `File ${file.href} referenced in manifest but not found in package`
+            `File ${path} referenced in manifest but not found in package`
           );
+        } else if (packageFile.size === 0) {
+          warnings.push(`File ${path} is empty`);
         }
       });
     });
@@ -174,9 +286,11 @@ export class SCORMValidator {
       return { isValid: false, errors, warnings };
     }
 
-    const entryPointFile = resource.href;
+    const entryPointFile = resolveXmlBase(resource.base, resource.href);
 
-    if (isHostedContent) {
+    if (isAbsoluteUrl(entryPointFile)) {
+      warnings.push(`Entry point ${entryPointFile} is outside the package`);
+    } else if (isHostedContent) {
       // For hosted content, we can't validate file existence but can validate structure
       warnings.push(
         `Hosted content: Entry point will be loaded from ${packageData.baseUrl}${entryPointFile}`
@@ -188,11 +302,15 @@ export class SCORMValidator {
       }
     }
 
-    // Check if entry point is an HTML file
-    if (
-      !entryPointFile.toLowerCase().endsWith(".html") &&
-      !entryPointFile.toLowerCase().endsWith(".htm")
-    ) {
+    // Check if entry point is an HTML file, preferring the detected content
+    // type of packaged files over the extension
+    const entryPointContentType = packageData.files.get(entryPointFile)?.contentType;
+    const isHtmlEntryPoint = entryPointContentType
+      ? entryPointContentType.startsWith("text/html") ||
+        entryPointContentType.startsWith("application/xhtml+xml")
+      : entryPointFile.toLowerCase().endsWith(".html") ||
+        entryPointFile.toLowerCase().endsWith(".htm");
+    if (!isHtmlEntryPoint) {
       warnings.push(`Entry point ${entryPointFile} is not an HTML file`);
     }
 
@@ -255,7 +373,7 @@ export class SCORMValidator {
           "URL does not contain obvious SCORM indicators - will attempt auto-detection"
         );
       }
-    } catch (error) {
+    } catch {
       errors.push("Invalid URL format");
     }
 
@@ -266,8 +384,11 @@ export class SCORMValidator {
     const errors: string[] = [];
     const warnings: string[] = [];
 
-    if (!["1.2", "2004"].includes(version)) {
-      errors.push('SCORM version must be either "1.2" or "2004"');
+    const validVersions = ["1.2", "2004", "2004-2nd", "2004-3rd", "2004-4th"];
+    if (!validVersions.includes(version)) {
+      errors.push(
+        'SCORM version must be "1.2", "2004" or a SCORM 2004 edition ("2004-2nd", "2004-3rd", "2004-4th")'
+      );
     }
 
     return { isValid: errors.length === 0, errors, warnings };
@@ -0,0 +1,185 @@
+/**
+ * SCORM Virtual File System
+ * Serves the contents of unzipped SCORM packages to the player iframe from a
+ * same-origin virtual path (/scorm-vfs/<packageId>/...) backed by a service
+ * worker. Package files are written to Cache Storage by the page and answered
+ * from there by public/scorm-vfs-sw.js.
+ */
+
+import { SCORMPackage } from "@/types/scorm";
+
+export const VFS_PATH_PREFIX = "/scorm-vfs/";
+// Keep in sync with CACHE_NAME in public/scorm-vfs-sw.js
+export const VFS_CACHE_NAME = "scorm-vfs-v1";
+const SERVICE_WORKER_URL = "/scorm-vfs-sw.js";
+
+/**
+ * Create an identifier for a package that is safe to use as a URL segment.
+ * It is derived from the zip's contents, so loading the same package again
+ * reuses its cache entries instead of adding new ones.
+ * @param seed - Usually the manifest identifier
+ * @param content - The zip file
+ */
+export async function createPackageId(seed: string, content: ArrayBuffer): Promise<string> {
+  const base = seed.replace(/[^a-zA-Z0-9_-]+/g, "-").replace(/^-+|-+$/g, "");
+  const digest = await crypto.subtle.digest("SHA-256", content);
+  const hash = Array.from(new Uint8Array(digest).slice(0, 8), (byte) => byte.toString(16).padStart(2, "0")).join("");
+  return `${base || "package"}-${hash}`;
+}
+
+/**
+ * Normalize a package-relative path and percent-encode each segment.
+ * The service worker applies the same encoding to decoded request paths, so
+ * both sides agree on cache keys regardless of how the browser escaped the URL.
+ */
+export function encodeVirtualPath(path: string): string {
+  const segments: string[] = [];
+  for (const segment of path.replace(/\\/g, "/").split("/")) {
+    if (segment === "" || segment === ".") continue;
+    if (segment === "..") {
+      segments.pop();
+      continue;
+    }
+    segments.push(encodeURIComponent(segment));
+  }
+  return segments.join("/");
+}
+
+/**
+ * Build the virtual URL for a file inside a mounted package
+ * @param packageId - The id assigned to the package when it was unzipped
+ * @param path - File path relative to the package root
+ */
+export function getVirtualFileUrl(packageId: string, path: string): string {
+  // Launch parameters (query string / fragment) are passed through untouched
+  const suffixIndex = path.search(/[?#]/);
+  const filePath = suffixIndex === -1 ? path : path.substring(0, suffixIndex);
+  const suffix = suffixIndex === -1 ? "" : path.substring(suffixIndex);
+
+  return `${VFS_PATH_PREFIX}${encodeURIComponent(packageId)}/${encodeVirtualPath(filePath)}${suffix}`;
+}
+
+export class SCORMVirtualFileSystem {
+  private static registration: Promise<ServiceWorkerRegistration> | null = null;
+  // Viewers showing the same package share its cache entries
+  private static mountCounts = new Map<string, number>();
+
+  static isSupported(): boolean {
+    return (
+      typeof window !== "undefined" &&
+      "serviceWorker" in navigator &&
+      "caches" in window
+    );
+  }
+
+  /**
+   * Register the VFS service worker and wait until it is active.
+   * The page itself is outside the worker scope, so navigator.serviceWorker.ready
+   * cannot be used here.
+   */
+  static register(): Promise<ServiceWorkerRegistration> {
+    if (!this.isSupported()) {
+      return Promise.reject(
+        new Error(
+          "Service workers are not available in this browser, zip packages cannot be served"
+        )
+      );
+    }
+
+    if (!this.registration) {
+      this.registration = navigator.serviceWorker
+        .register(SERVICE_WORKER_URL, { scope: VFS_PATH_PREFIX })
+        .then((registration) => this.waitForActivation(registration))
+        .catch((error) => {
+          this.registration = null;
+          throw error;
+        });
+    }
+
+    return this.registration;
+  }
+
+  private static waitForActivation(
+    registration: ServiceWorkerRegistration
+  ): Promise<ServiceWorkerRegistration> {
+    if (registration.active) {
+      return Promise.resolve(registration);
+    }
+
+    const worker = registration.installing || registration.waiting;
+    if (!worker) {
+      return Promise.reject(new Error("SCORM VFS service worker failed to install"));
+    }
+
+    return new Promise((resolve, reject) => {
+      worker.addEventListener("statechange", () => {
+        if (worker.state === "activated") {
+          resolve(registration);
+        } else if (worker.state === "redundant") {
+          reject(new Error("SCORM VFS service worker became redundant"));
+        }
+      });
+    });
+  }
+
+  /**
+   * Write every file of an unzipped package to the VFS cache
+   * @param packageData - A package loaded from a zip (must have a packageId)
+   */
+  static async mountPackage(packageData: SCORMPackage): Promise<void> {
+    if (!packageData.packageId) {
+      throw new Error("Only packages loaded from a zip file can be mounted");
+    }
+
+    await this.register();
+
+    const packageId = packageData.packageId;
+    this.mountCounts.set(packageId, (this.mountCounts.get(packageId) ?? 0) + 1);
+    const cache = await caches.open(VFS_CACHE_NAME);
+    const origin = window.location.origin;
+
+    await Promise.all(
+      Array.from(packageData.files.values()).map((file) =>
+        cache.put(
+          new Request(origin + getVirtualFileUrl(packageId, file.path)),
+          new Response(packageData.files.getBlob(file.path), {
+            headers: {
+              "Content-Type": file.contentType,
+              "Content-Length": String(file.size),
+            },
+          })
+        )
+      )
+    );
+
+    console.log(
+      `[SCORM VFS] Mounted ${packageData.files.size} files for package ${packageId}`
+    );
+  }
+
+  /**
+   * Remove a package's files from the VFS cache once no viewer on the page
+   * has it mounted
+   * @param packageId - The id of a previously mounted package
+   */
+  static async unmountPackage(packageId: string): Promise<void> {
+    if (!this.isSupported()) return;
+
+    const mountCount = (this.mountCounts.get(packageId) ?? 1) - 1;
+    if (mountCount > 0) {
+      this.mountCounts.set(packageId, mountCount);
+      return;
+    }
+    this.mountCounts.delete(packageId);
+
+    const cache = await caches.open(VFS_CACHE_NAME);
+    const prefix = `${window.location.origin}${VFS_PATH_PREFIX}${encodeURIComponent(packageId)}/`;
+    const requests = await cache.keys();
+
+    await Promise.all(
+      requests
+        .filter((request) => request.url.startsWith(prefix))
+        .map((request) => cache.delete(request))
+    );
+  }
+}
@@ -0,0 +1,67 @@
+// SCORM xml:base Resolution
+// Content packages can relocate resource hrefs with xml:base on <manifest>,
+// <resources> and <resource> (e.g. xml:base="content/"). Each level resolves
+// against the one above it, and resource and file hrefs resolve against the
+// result.
+
+/**
+ * Whether a reference is an absolute URL (has a scheme)
+ */
+export function isAbsoluteUrl(reference: string): boolean {
+  return /^[a-z][a-z0-9+.-]*:/i.test(reference);
+}
+
+/**
+ * Resolve a reference from the manifest against an xml:base.
+ * Bases are treated as directories whether or not they end in "/", as
+ * authoring tools often omit it.
+ * @param base - Resolved base of the enclosing element: a package-relative path or an absolute URL
+ * @param reference - An xml:base or href as written in the manifest
+ * @returns A package-relative path, or an absolute URL when the base or the
+ * reference is absolute
+ */
+export function resolveXmlBase(base: string | undefined, reference: string | undefined): string {
+  const trimmedBase = base?.trim() || "";
+  const trimmedReference = reference?.trim() || "";
+
+  if (!trimmedReference) {
+    return trimmedBase;
+  }
+  if (isAbsoluteUrl(trimmedReference)) {
+    return trimmedReference;
+  }
+  if (isAbsoluteUrl(trimmedBase)) {
+    const directory = trimmedBase.endsWith("/") ? trimmedBase : `${trimmedBase}/`;
+    try {
+      return new URL(trimmedReference, directory).href;
+    } catch {
+      return trimmedReference;
+    }
+  }
+
+  // A reference starting with "/" is relative to the package root
+  if (trimmedReference.startsWith("/") || !trimmedBase) {
+    return normalizePath(trimmedReference);
+  }
+  return normalizePath(`${trimmedBase}/${trimmedReference}`);
+}
+
+// Removes empty, "." and ".." segments; the query string and fragment are kept as is
+function normalizePath(path: string): string {
+  const suffixIndex = path.search(/[?#]/);
+  const filePath = (suffixIndex === -1 ? path : path.substring(0, suffixIndex)).replace(/\\/g, "/");
+  const suffix = suffixIndex === -1 ? "" : path.substring(suffixIndex);
+
+  const segments: string[] = [];
+  for (const segment of filePath.split("/")) {
+    if (segment === "" || segment === ".") continue;
+    if (segment === "..") {
+      segments.pop();
+      continue;
+    }
+    segments.push(segment);
+  }
+
+  const trailingSlash = filePath.endsWith("/") && segments.length > 0 ? "/" : "";
+  return segments.join("/") + trailingSlash + suffix;
+}
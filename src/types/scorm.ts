@@ -1,7 +1,21 @@
 /* eslint-disable @typescript-eslint/no-explicit-any */
 // SCORM Type Definitions
 
+import type { SCORMFileStore } from "@/lib/scorm-file-store";
+
+// Elements addressed by an array index or a navigation target, e.g.
+// cmi.objectives.0.id, cmi.interactions.2.objectives.0.id or
+// adl.nav.request_valid.choice.{target=item_2}
+export type SCORMIndexedElement =
+  | `cmi.objectives.${number}.${string}`
+  | `cmi.interactions.${number}.${string}`
+  | `cmi.comments_from_learner.${number}.${string}`
+  | `cmi.comments_from_lms.${number}.${string}`
+  | `adl.nav.request_valid.${"choice" | "jump"}.{target=${string}}`;
+
 export interface SCORMDataModel {
+  [element: SCORMIndexedElement]: string | undefined;
+
   // SCORM 1.2 Core Data Model
   "cmi.core.lesson_status"?:
     | "passed"
@@ -70,6 +84,7 @@ export interface SCORMDataModel {
     | "continue,message"
     | "continue,no message";
   "cmi.scaled_passing_score"?: string;
+  "cmi.completion_threshold"?: string;
   "cmi.comments_from_learner._count"?: string;
   "cmi.comments_from_lms._count"?: string;
   "cmi.learner_preference._children"?: string;
@@ -86,7 +101,11 @@ export interface SCORMDataModel {
     | "exit"
     | "exitAll"
     | "abandon"
-    | "abandonAll";
+    | "abandonAll"
+    | "suspendAll"
+    | "_none_"
+    | `{target=${string}}choice`
+    | `{target=${string}}jump`;
   "adl.nav.request_valid.continue"?: "true" | "false" | "unknown";
   "adl.nav.request_valid.previous"?: "true" | "false" | "unknown";
 }
@@ -124,8 +143,12 @@ export interface SCORMManifest {
   version: string;
   title: string;
   description?: string;
+  schema?: string;
   schemaversion?: string;
+  edition: SCORMEdition;
+  namespaces?: Record<string, string>; // prefix ("" for default) -> namespace URI
   organizations: SCORMOrganization[];
+  defaultOrganization?: string; // Identifier from <organizations default="...">
   resources: SCORMResource[];
   metadata?: SCORMMetadata;
   sequencingCollection?: SCORMSequencingCollection;
@@ -164,9 +187,9 @@ export interface SCORMResource {
   identifier: string;
   type: string;
   href: string;
-  base?: string;
+  base?: string; // Resolved xml:base chain (manifest -> resources -> resource) that href and file hrefs are relative to
   scormType?: "sco" | "asset";
-  xmlBase?: string;
+  xmlBase?: string; // The resource's own xml:base attribute
   files: SCORMFile[];
   dependencies?: SCORMDependency[];
 }
@@ -183,6 +206,7 @@ export interface SCORMDependency {
 // SCORM 2004 Sequencing Types
 export interface SCORMSequencing {
   id?: string;
+  idRef?: string; // References a <sequencing> in the manifest's sequencingCollection
   controlMode?: SCORMControlMode;
   sequencingRules?: SCORMSequencingRules;
   limitConditions?: SCORMLimitConditions;
@@ -240,12 +264,18 @@ export interface SCORMAuxiliaryResource {
 }
 
 export interface SCORMRollupRules {
+  rollupObjectiveSatisfied?: boolean; // Default true
+  rollupProgressCompletion?: boolean; // Default true
+  objectiveMeasureWeight?: number; // Default 1.0
   rollupRule?: SCORMRollupRule[];
 }
 
 export interface SCORMRollupRule {
   objectiveRollup?: boolean;
   measureRollup?: boolean;
+  childActivitySet?: "all" | "any" | "none" | "atLeastCount" | "atLeastPercent";
+  minimumCount?: number;
+  minimumPercent?: number; // 0.0 to 1.0
   action: string;
   conditionCombination: "all" | "any";
   conditions: SCORMRuleCondition[];
@@ -327,8 +357,11 @@ export interface SCORMSequencingCollection {
 
 export interface SCORMPackage {
   manifest: SCORMManifest;
-  files: Map<string, string>; // file path -> content
+  files: SCORMFileStore; // file path -> binary content + content type
   baseUrl: string;
+  packageId?: string; // set for zip packages, used to address them in the virtual file system
 }
 
 export type SCORMVersion = "1.2" | "2004";
+
+export type SCORMEdition = "1.2" | "2004-2nd" | "2004-3rd" | "2004-4th";